@@ -1,45 +1,300 @@
-import axios, { AxiosInstance, ResponseType } from "axios";
+import type { AxiosInstance, AxiosProxyConfig, ResponseType } from "axios";
 import Config from "./config.js";
+import { fetchRequest } from "./fetchTransport.js";
+import { RequestAbortedError } from "./errors.js";
+import { createLogger } from "./logger.js";
+import { createTelemetryMiddleware } from "./telemetry.js";
+import { RateLimiter } from "./rateLimiter.js";
+import { computeDelay, isIdempotent, resolveRetryOptions, RetryOptions, shouldRetry, sleep } from "./retry.js";
+import { discardBody, toResponseStream } from "./stream.js";
+import { QueryStream } from "./queryStream.js";
+import { ILogger, IMiddleware, IRequestContext, IResponseStream, IWetrocloudOptions } from "./types/index.js";
+import { IUploadProgress } from "./upload.js";
+import { anySignal, errorMessage, generateRandomString, isNodeRuntime } from "./utils.js";
+
+export interface RequestConfig {
+    /** The `Wetrocloud` method making the request, exposed to middleware. */
+    operation?: string;
+    url: string;
+    method: string;
+    data?: FormData | Record<string, string>;
+    headers?: Record<string, string>;
+    responseType?: ResponseType,
+    idempotent?: boolean,
+    retry?: Partial<RetryOptions> | false,
+    timeout?: number,
+    onUploadProgress?: (progress: IUploadProgress) => void,
+    signal?: AbortSignal,
+    /** Position in the rate limiter's queue. */
+    priority?: number
+}
 
 export default class AxiosAPI {
     private apiSecret: string;
-    private axiosInstance: AxiosInstance;
+    private axiosInstance?: AxiosInstance;
+    private fetchImpl?: IWetrocloudOptions["fetch"];
+    private retryOptions: RetryOptions;
+    private baseURL: string;
+    private referrer: string;
+    private timeout: number;
+    private proxy?: AxiosProxyConfig | false;
+    private defaultHeaders: Record<string, string>;
+    private inflight = new Set<AbortController>();
+    private middleware: IMiddleware[];
+    /** Leveled logger that masks the API secret. */
+    public readonly logger: ILogger;
+    /** Client-side rate limiter, when `rateLimit` is set. */
+    public readonly limiter?: RateLimiter;
+    /** Rate-limit slots held by streams until they end. */
+    private streamSlots = new WeakMap<IRequestContext, () => void>();
 
-    constructor({ apiSecret }: { apiSecret: string }) {
+    constructor({
+        apiSecret,
+        retry,
+        baseURL = Config.WETROCLOUD.API_URL,
+        apiVersion = Config.WETROCLOUD.API_VERSION,
+        timeout = 0,
+        headers = {},
+        userAgent,
+        referrer = Config.WETROCLOUD.REFERRER,
+        proxy,
+        axiosInstance,
+        fetch,
+        logger,
+        logLevel,
+        middleware = [],
+        telemetry,
+        rateLimit
+    }: IWetrocloudOptions & { apiSecret: string }) {
         this.apiSecret = apiSecret;
+        this.retryOptions = resolveRetryOptions(retry);
+        this.baseURL = baseURL.replace(/\/+$/, "") + (apiVersion ? `/${apiVersion.replace(/^\/+|\/+$/g, "")}` : "");
+        this.referrer = referrer;
+        this.timeout = timeout;
+        this.proxy = proxy;
+        // outside Node (browsers, workers, edge runtimes) the platform's fetch is the default transport
+        this.fetchImpl = fetch ?? (axiosInstance || isNodeRuntime() ? undefined : globalThis.fetch?.bind(globalThis));
+        this.defaultHeaders = {
+            ...headers,
+            ...(userAgent ? { 'User-Agent': userAgent } : {}),
+            Authorization: `Token ${this.apiSecret}`,
+            'Content-Type': 'application/json',
+        };
+
+        this.axiosInstance = axiosInstance;
+        // telemetry runs first so its spans cover the user's hooks
+        this.middleware = [
+            ...(telemetry ? [createTelemetryMiddleware(telemetry === true ? {} : telemetry)] : []),
+            ...middleware
+        ];
+        this.logger = createLogger({ logger, level: logLevel, secrets: [apiSecret] });
+        if (rateLimit) this.limiter = new RateLimiter(rateLimit);
+    }
+
+    /** Appends a middleware; it runs after the ones already registered. */
+    public use(middleware: IMiddleware) {
+        this.middleware.push(middleware);
+    }
 
-        this.axiosInstance = axios.create({
-            baseURL: Config.WETROCLOUD.API_URL + "/v1",
-            headers: {
-                Authorization: `Token ${this.apiSecret}`,
-                'Content-Type': 'application/json',
-            },
+    /**
+     * Sends a request, retrying transient failures according to the retry policy.
+     *
+     * Only idempotent requests are retried unless `retryNonIdempotent` is set;
+     * `idempotent` lets a caller flag a read-only POST (e.g. a query) as safe to repeat.
+     * Streamed responses are retried only until the response headers arrive,
+     * so no chunk is ever delivered twice. Aborting `signal` cancels the request
+     * and any pending retry.
+     */
+    public async request(config: RequestConfig) {
+        return this.execute(config, this.createContext(config));
+    }
+
+    /**
+     * Sends a request whose answer is streamed and returns it as a {@link QueryStream},
+     * passing every chunk to the middleware's `onStreamChunk`. The stream's `rateLimit`
+     * slot is released once it ends, fails or is cancelled.
+     */
+    public async requestStream<T>(config: RequestConfig, options: {
+        throwOnParseError?: boolean,
+        onDone?: (tokens: number) => void
+    } = {}): Promise<IResponseStream<T>> {
+        const context = this.createContext({ ...config, responseType: "stream" });
+        const body = await this.execute({ ...config, responseType: "stream" }, context);
+        const hooks = this.middleware.filter((middleware) => middleware.onStreamChunk);
+        let ended = false;
+        const onDone = (tokens: number, error?: unknown) => {
+            if (ended) return;
+            ended = true;
+            this.streamSlots.get(context)?.();
+            this.streamSlots.delete(context);
+            options.onDone?.(tokens);
+            const result = { tokens, ...(error ? { error: errorMessage(error) } : {}) };
+            this.middleware.forEach((middleware) => middleware.onStreamEnd?.(context, result));
+        };
+        return new QueryStream<T>((onParseError) => toResponseStream<T>(body, {
+            throwOnParseError: options.throwOnParseError,
+            signal: config.signal,
+            logger: this.logger,
+            onParseError,
+            ...(hooks.length ? { onChunk: (chunk) => hooks.forEach((middleware) => middleware.onStreamChunk!(context, chunk)) } : {}),
+            onDone
+        }), {
+            onCancel: () => {
+                discardBody(body);
+                onDone(0, new RequestAbortedError("The stream was cancelled before it was read", { code: "ERR_CANCELED" }));
+            }
         });
     }
 
-    public async request({
+    private createContext({ operation, url, method, data, headers = {}, responseType }: RequestConfig): IRequestContext {
+        return {
+            id: globalThis.crypto?.randomUUID?.() ?? generateRandomString(32),
+            operation,
+            method,
+            url,
+            headers: { ...this.defaultHeaders, ...headers },
+            data,
+            stream: responseType === "stream",
+            attempt: 0,
+            startedAt: Date.now()
+        };
+    }
+
+    private async execute({
         url,
         method,
         data,
-        headers = {},
-        responseType
+        responseType,
+        idempotent = isIdempotent(method),
+        retry,
+        timeout = this.timeout,
+        onUploadProgress,
+        signal,
+        priority
+    }: RequestConfig, context: IRequestContext) {
+        const retryOptions = retry === undefined ? this.retryOptions : resolveRetryOptions(this.retryOptions, retry);
+        const controller = new AbortController();
+        const requestSignal = anySignal([signal, controller.signal])!;
+        const meta = () => ({ id: context.id, attempt: context.attempt, durationMs: Date.now() - context.startedAt });
+        this.inflight.add(controller);
+
+        try {
+            for (let attempt = 0; ; attempt++) {
+                context.attempt = attempt;
+                let release: (() => void) | undefined;
+                try {
+                    for (const middleware of this.middleware) await middleware.onRequest?.(context);
+                    release = await this.limiter?.acquire(url, { priority, signal: requestSignal });
+                    this.logger.debug(`${method} ${url}`, meta());
+
+                    let response = await this.send({
+                        url, method, data, headers: context.headers, responseType, timeout, onUploadProgress, signal: requestSignal,
+                        onStatus: (status) => context.status = status
+                    });
+                    // a stream keeps its slot until it ends, see requestStream
+                    if (!context.stream) release?.();
+                    for (const middleware of this.middleware) {
+                        const replaced = await middleware.onResponse?.(context, response);
+                        if (replaced !== undefined) response = replaced;
+                    }
+                    this.logger.debug(`${method} ${url} succeeded`, meta());
+                    if (context.stream && release) this.streamSlots.set(context, release);
+                    return response;
+                } catch (e) {
+                    release?.();
+                    const error = errorMessage(e);
+                    const willRetry = !requestSignal.aborted && shouldRetry(e, attempt, retryOptions, idempotent);
+                    for (const middleware of this.middleware) await middleware.onError?.(context, error, { willRetry });
+
+                    if (!willRetry) {
+                        this.logger.info(`${method} ${url} failed: ${error.message}`, { ...meta(), status: error.status, code: error.code });
+                        throw e;
+                    }
+                    const delay = computeDelay(e, attempt, retryOptions);
+                    this.logger.info(`${method} ${url} failed, retrying in ${Math.round(delay)}ms: ${error.message}`, meta());
+                    await sleep(delay, requestSignal);
+                }
+            }
+        } catch (e) {
+            // the signal's reason can be anything (`abort("stop")`); report every abort the same way
+            if (requestSignal.aborted && !(e instanceof RequestAbortedError)) {
+                throw new RequestAbortedError("Request was aborted", { code: "ERR_CANCELED", cause: requestSignal.reason });
+            }
+            throw e;
+        } finally {
+            this.inflight.delete(controller);
+        }
+    }
+
+    /** Aborts every request that has not received its response yet. */
+    public cancelRequests() {
+        for (const controller of this.inflight) {
+            controller.abort(new RequestAbortedError("Request was cancelled", { code: "ERR_CANCELED" }));
+        }
+        this.inflight.clear();
+    }
+
+    /** Performs a single attempt through fetch or Axios. */
+    private async send({
+        url,
+        method,
+        data,
+        headers,
+        responseType,
+        timeout,
+        onUploadProgress,
+        signal,
+        onStatus
     }: {
         url: string;
         method: string;
         data?: FormData | Record<string, string>;
-        headers?: Record<string, string>;
-        responseType?: ResponseType
+        headers: Record<string, string>;
+        responseType?: ResponseType,
+        timeout: number,
+        onUploadProgress?: (progress: IUploadProgress) => void,
+        signal: AbortSignal,
+        onStatus: (status: number) => void
     }) {
+        const path = `${url}?referrer=${encodeURIComponent(this.referrer)}`;
+
+        if (this.fetchImpl) {
+            const res = await fetchRequest(this.fetchImpl, {
+                url: this.baseURL + path,
+                method,
+                data,
+                headers: { ...headers },
+                timeout,
+                responseType,
+                signal,
+                onStatus
+            });
+            // fetch exposes no upload progress, report the whole body once it is sent
+            if (onUploadProgress && data instanceof FormData) {
+                const total = [...data.values()].reduce((sum, value) => sum + (typeof value === "string" ? value.length : value.size), 0);
+                onUploadProgress({ loaded: total, total, progress: 1 });
+            }
+            return res;
+        }
+
+        // imported on first use, so runtimes going through fetch never load Axios or its Node adapters
+        this.axiosInstance ??= (await import("axios")).default.create();
         return this.axiosInstance({
-            url: url + `?referrer=node_sdk`,
+            baseURL: this.baseURL,
+            url: path,
             method,
             data,
             headers,
-            responseType
-        }).then((response) => response.data);
+            responseType,
+            timeout,
+            signal,
+            ...(onUploadProgress ? {
+                onUploadProgress: ({ loaded, total, progress }) => onUploadProgress({ loaded, total, progress })
+            } : {}),
+            ...(this.proxy !== undefined ? { proxy: this.proxy } : {})
+        }).then((response) => {
+            onStatus(response.status);
+            return response.data;
+        });
     }
-
-    // public cancelRequests() {
-    //     this.axiosInstance.defaults.signal?.abort();
-    // }
 }
@@ -0,0 +1,157 @@
+import { ICacheInfo, ICacheOptions, ICacheStore, ILogger } from "./types/index.js";
+import { generateRandomString } from "./utils.js";
+
+const DEFAULT_TTL = 5 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * In-memory {@link ICacheStore} evicting the least recently used entry once
+ * `maxEntries` is reached. Used by default when caching is enabled.
+ */
+export class MemoryCacheStore implements ICacheStore {
+    private entries = new Map<string, { value: unknown, expiresAt: number }>();
+
+    constructor(private maxEntries = DEFAULT_MAX_ENTRIES) { }
+
+    public get(key: string): unknown {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+        this.entries.delete(key);
+        if (entry.expiresAt <= Date.now()) return undefined;
+        // re-insert so the Map's order stays least recently used first
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    public set(key: string, value: unknown, ttl?: number) {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt: ttl ? Date.now() + ttl : Infinity });
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+
+    public delete(key: string) {
+        this.entries.delete(key);
+    }
+
+    public clear() {
+        this.entries.clear();
+    }
+
+    public get size() {
+        return this.entries.size;
+    }
+}
+
+interface CachedValue {
+    value: unknown,
+    storedAt: number
+}
+
+/**
+ * Caches successful answers of read-only calls, keyed on the endpoint and the
+ * normalized request body.
+ *
+ * Every collection has a version stored next to the entries; writes to the
+ * collection replace it, which orphans (and eventually expires) its entries;
+ * answers fetched while the version changed are not stored.
+ * This works with any key/value store, without listing keys.
+ */
+export class ResponseCache {
+    private store: ICacheStore;
+    private ttl: number;
+    private namespace: string;
+
+    constructor({ store, ttl = DEFAULT_TTL, maxEntries, namespace = "" }: ICacheOptions, private logger?: ILogger) {
+        this.store = store || new MemoryCacheStore(maxEntries);
+        this.ttl = ttl;
+        this.namespace = `wetrocloud:${namespace ? `${namespace}:` : ""}`;
+    }
+
+    /**
+     * Returns the cached answer for this request, or calls `send` and caches what it
+     * resolves to when it succeeded and `accept` allows it. An answer is not cached when
+     * the collection was written to while `send` ran, as it may predate the write.
+     * The result carries a `cache` field telling which happened.
+     */
+    public async wrap<R>(endpoint: string, body: Record<string, unknown>, collection_id: string | undefined,
+        send: () => Promise<R>, ttl = this.ttl, accept: (res: R) => boolean = () => true): Promise<R> {
+        const version = await this.version(collection_id);
+        const key = `${this.namespace}${endpoint}:${collection_id ? `${collection_id}@${version}:` : ""}${stableStringify(normalize(body))}`;
+
+        const cached = await this.attempt(() => this.store.get(key)) as CachedValue | undefined;
+        if (cached && typeof cached === "object" && "value" in cached) {
+            const cache: ICacheInfo = { hit: true, key, age: Date.now() - cached.storedAt };
+            return { ...(cached.value as object), cache } as R;
+        }
+
+        const res = await send();
+        const succeeded = !!res && typeof res === "object" && (res as { success?: boolean }).success !== false;
+        if (succeeded && accept(res) && await this.version(collection_id) === version) {
+            await this.attempt(() => this.store.set(key, { value: res, storedAt: Date.now() } satisfies CachedValue, ttl));
+        }
+        return succeeded ? { ...res, cache: { hit: false, key, age: 0 } satisfies ICacheInfo } : res;
+    }
+
+    /** Drops every cached answer about `collection_id`. */
+    public async invalidate(collection_id: string) {
+        await this.attempt(() => this.store.set(this.versionKey(collection_id), generateRandomString(8)));
+    }
+
+    /** Empties the store, when it supports it. */
+    public async clear() {
+        await this.attempt(() => this.store.clear?.());
+    }
+
+    private versionKey(collection_id: string) {
+        return `${this.namespace}collection-version:${collection_id}`;
+    }
+
+    private async version(collection_id?: string): Promise<string> {
+        if (!collection_id) return "";
+        const current = await this.attempt(() => this.store.get(this.versionKey(collection_id)));
+        if (typeof current === "string") return current;
+        // a missing version (new or evicted) starts a new one, so older entries are never served
+        const version = generateRandomString(8);
+        await this.attempt(() => this.store.set(this.versionKey(collection_id), version));
+        return version;
+    }
+
+    /** Runs a store operation; a failing store degrades to a cache miss instead of failing the call. */
+    private async attempt<T>(operation: () => T | Promise<T>): Promise<T | undefined> {
+        try {
+            return await operation();
+        } catch (e) {
+            this.logger?.warn("Response cache store failed", { error: e });
+            return undefined;
+        }
+    }
+}
+
+/** Parses JSON-encoded values (e.g. `json_schema`) and trims strings so equivalent requests share a key. */
+function normalize(body: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(body)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => {
+            if (typeof value !== "string") return [key, value];
+            const text = value.trim();
+            if (/^[[{]/.test(text)) {
+                try {
+                    return [key, JSON.parse(text)];
+                } catch {
+                    return [key, text];
+                }
+            }
+            return [key, text];
+        }));
+}
+
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+    if (value && typeof value === "object") {
+        return `{${Object.keys(value).sort().map((key) =>
+            `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`).join(",")}}`;
+    }
+    return JSON.stringify(value) ?? "null";
+}
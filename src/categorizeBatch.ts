@@ -0,0 +1,193 @@
+import type Wetrocloud from "./index.js";
+import type { SchemaInput } from "./schema.js";
+import { RequestAbortedError, WetrocloudError } from "./errors.js";
+import { runPool } from "./pool.js";
+import { anySignal, csvCell, errorMessage } from "./utils.js";
+import {
+    ICategorizeItem,
+    ICategorizeParams,
+    ICategorizeResourcesParams,
+    ICategorizeResult,
+    ICatergorizeResource,
+    IErrorMessage
+} from "./types/index.js";
+
+const DEFAULT_SCHEMA = { label: "string" };
+
+/**
+ * Aggregate of a batch categorization: every item's result, counts per category
+ * and the items none of the categories matched.
+ */
+export class CategorizeReport<T = unknown, M = unknown> {
+    /** One entry per input item, in input order. */
+    public readonly results: ICategorizeResult<T, M>[];
+    /** Items per category, including categories nothing was put in. */
+    public readonly counts: Record<string, number>;
+    /** Answered items whose answer names none of the categories. */
+    public unassigned = 0;
+    public succeeded = 0;
+    public failed = 0;
+    /** Tokens used by every successful call. */
+    public tokens = 0;
+
+    constructor(categories: string[], resources: ICategorizeItem<M>[]) {
+        this.counts = Object.fromEntries(categories.map((category) => [category, 0]));
+        this.results = resources.map(({ resource, metadata }, index) => ({ index, resource, metadata, status: "skipped" }));
+    }
+
+    /** Items never attempted because the batch stopped early. */
+    public get skipped(): number {
+        return this.results.filter((result) => result.status === "skipped").length;
+    }
+
+    /** Records a finished item. */
+    public add(result: ICategorizeResult<T, M>) {
+        this.results[result.index] = result;
+        if (result.status === "rejected") {
+            this.failed++;
+        } else if (result.status === "fulfilled") {
+            this.succeeded++;
+            this.tokens += result.tokens;
+            if (result.label === null) this.unassigned++;
+            else this.counts[result.label]++;
+        }
+    }
+
+    public toJSON() {
+        return {
+            counts: this.counts,
+            unassigned: this.unassigned,
+            succeeded: this.succeeded,
+            failed: this.failed,
+            skipped: this.skipped,
+            tokens: this.tokens,
+            results: this.results.map((result) => result.status === "rejected"
+                ? { ...result, error: { name: result.error.name, message: result.error.message, status: result.error.status } }
+                : result)
+        };
+    }
+
+    /** Exports one row per item: `index,resource,status,label,tokens,error,metadata`. */
+    public toCSV(): string {
+        const rows: (string | number)[][] = [["index", "resource", "status", "label", "tokens", "error", "metadata"]];
+        for (const result of this.results) {
+            rows.push([
+                result.index,
+                result.resource,
+                result.status,
+                result.status === "fulfilled" ? result.label ?? "" : "",
+                result.status === "fulfilled" ? result.tokens : "",
+                result.status === "rejected" ? result.error.message : "",
+                result.metadata === undefined ? "" : JSON.stringify(result.metadata)
+            ]);
+        }
+        return rows.map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+    }
+}
+
+/**
+ * Categorizes many resources; see `Wetrocloud.streamCategorizeResources`.
+ *
+ * Results are queued by the pool and handed out by the generator, so a slow
+ * consumer never blocks the calls in flight.
+ */
+export async function* categorizeResources<T = unknown, M = unknown>(sdk: Wetrocloud, {
+    resources,
+    categories,
+    prompt,
+    json_schema,
+    schema,
+    labelKey,
+    concurrency = 4,
+    stopOnError = false,
+    onProgress,
+    ...options
+}: ICategorizeResourcesParams<T, M>): AsyncGenerator<ICategorizeResult<T, M>, CategorizeReport<T, M>, undefined> {
+    const report = new CategorizeReport<T, M>(categories, resources);
+    const finished: ICategorizeResult<T, M>[] = [];
+    let wake: (() => void) | undefined;
+    let stopped = false;
+    let completed = 0;
+    let failure: { error: unknown } | undefined;
+    // aborts the calls still in flight when the consumer leaves the loop early
+    const controller = new AbortController();
+    const signal = anySignal([options.signal, controller.signal]);
+
+    const pool = runPool(resources, concurrency, async ({ resource, type, metadata }, index) => {
+        let result: ICategorizeResult<T, M>;
+        try {
+            const res = await sdk.categorize<T>({
+                ...options,
+                signal,
+                resource,
+                type,
+                categories,
+                prompt,
+                json_schema: json_schema ?? (schema ? undefined : DEFAULT_SCHEMA),
+                schema
+            } as ICategorizeParams<T> & { schema: SchemaInput<T> });
+            if ((res as IErrorMessage).error) throw (res as IErrorMessage).error;
+            const answer = res as ICatergorizeResource<T>;
+            if (!answer?.success) throw new WetrocloudError("Resource was not categorized", { data: res });
+            result = {
+                index, resource, metadata, status: "fulfilled",
+                label: findLabel(answer.response, categories, labelKey),
+                response: answer.response,
+                tokens: answer.tokens || 0
+            };
+        } catch (e) {
+            result = { index, resource, metadata, status: "rejected", error: errorMessage(e) };
+        }
+        // nobody is listening any more
+        if (controller.signal.aborted) return;
+        report.add(result);
+        finished.push(result);
+        completed++;
+        onProgress?.({ completed, total: resources.length, result });
+        wake?.();
+    }, () => stopped || !!signal?.aborted || (stopOnError && report.failed > 0))
+        // kept until the loop ends, so a failure after the consumer left is not unhandled
+        .catch((error) => { failure = { error }; })
+        .finally(() => {
+            stopped = true;
+            wake?.();
+        });
+
+    try {
+        while (true) {
+            if (finished.length) {
+                yield finished.shift()!;
+            } else if (stopped) {
+                break;
+            } else {
+                await new Promise<void>((resolve) => wake = resolve);
+                wake = undefined;
+            }
+        }
+        await pool;
+        if (failure) throw failure.error;
+        return report;
+    } finally {
+        stopped = true;
+        controller.abort(new RequestAbortedError("The categorization was stopped", { code: "ERR_CANCELED" }));
+    }
+}
+
+/** The first string in `response` (or its `labelKey` field) equal to a category, ignoring case. */
+function findLabel(response: unknown, categories: string[], labelKey?: string): string | null {
+    const values = labelKey && response && typeof response === "object"
+        ? [(response as Record<string, unknown>)[labelKey]]
+        : strings(response);
+    for (const value of values) {
+        const text = String(value).trim().toLowerCase();
+        const match = categories.find((category) => category.toLowerCase() === text);
+        if (match) return match;
+    }
+    return null;
+}
+
+function strings(value: unknown): unknown[] {
+    if (Array.isArray(value)) return value.flatMap(strings);
+    if (value && typeof value === "object") return Object.values(value).flatMap(strings);
+    return typeof value === "string" ? [value] : [];
+}
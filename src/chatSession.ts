@@ -0,0 +1,183 @@
+import type Wetrocloud from "./index.js";
+import { QueryStream } from "./queryStream.js";
+import {
+    IChatMessage,
+    IErrorMessage,
+    IQueryResourceCollectionDynamic,
+    IRequestOptions,
+    IResponseStream
+} from "./types/index.js";
+
+export interface IChatSessionOptions {
+    collection_id: string,
+    /** Pinned as the first `system` message of every request; never truncated. */
+    systemPrompt?: string,
+    /** Keep at most this many user/reply turns. */
+    maxTurns?: number,
+    /** Keep the history under roughly this many tokens (estimated at 4 characters per token). */
+    maxHistoryTokens?: number,
+    /**
+     * Called with the turns that fell out of the window; its result is kept as a
+     * `system` message in their place. Without it, old turns are simply dropped.
+     */
+    summarize?: (dropped: IChatMessage[], previousSummary?: string) => Promise<string> | string
+}
+
+/** Serializable state of a {@link ChatSession}, as returned by `toJSON()`. */
+export interface IChatSessionState {
+    collection_id: string,
+    systemPrompt?: string,
+    maxTurns?: number,
+    maxHistoryTokens?: number,
+    summary?: string,
+    history: IChatMessage[],
+    tokens: number
+}
+
+/** Rough token estimate used for history budgeting. */
+export const estimateTokens = (messages: IChatMessage[]) =>
+    messages.reduce((sum, { content }) => sum + Math.ceil(content.length / 4), 0);
+
+const toContent = (response: unknown) => typeof response === "string" ? response : JSON.stringify(response);
+
+/**
+ * A conversation with a collection that keeps its own `chat_history`.
+ *
+ * Each successful `send` appends the user message and the reply (as a `system`
+ * message, the role the API uses for answers) and adds the call's tokens to
+ * {@link ChatSession.tokens}. Failed or aborted calls leave the history untouched.
+ *
+ * @example
+ * const session = sdk.chatSession({ collection_id: "12345", maxTurns: 10 });
+ * await session.send("What is Web3?");
+ * await session.send("How does it relate to blockchain?");
+ * await db.save(JSON.stringify(session));
+ */
+export class ChatSession {
+    public readonly collection_id: string;
+    public systemPrompt?: string;
+    public maxTurns?: number;
+    public maxHistoryTokens?: number;
+    /** Total tokens used by this conversation so far. */
+    public tokens = 0;
+
+    private turns: IChatMessage[] = [];
+    private summary?: string;
+    private summarize?: IChatSessionOptions["summarize"];
+
+    constructor(private sdk: Wetrocloud, {
+        collection_id,
+        systemPrompt,
+        maxTurns,
+        maxHistoryTokens,
+        summarize
+    }: IChatSessionOptions) {
+        this.collection_id = collection_id;
+        this.systemPrompt = systemPrompt;
+        this.maxTurns = maxTurns;
+        this.maxHistoryTokens = maxHistoryTokens;
+        this.summarize = summarize;
+    }
+
+    /** Restores a session saved with `toJSON()`. */
+    public static fromJSON(sdk: Wetrocloud, state: IChatSessionState | string,
+        options: Pick<IChatSessionOptions, "summarize"> = {}): ChatSession {
+        const data: IChatSessionState = typeof state === "string" ? JSON.parse(state) : state;
+        const session = new ChatSession(sdk, { ...data, ...options });
+        session.turns = [...data.history];
+        session.summary = data.summary;
+        session.tokens = data.tokens || 0;
+        return session;
+    }
+
+    /** The user/reply turns currently kept, oldest first. */
+    public get history(): IChatMessage[] {
+        return [...this.turns];
+    }
+
+    /** The `chat_history` sent with the next message: pinned prompt, summary, then turns. */
+    public get chatHistory(): IChatMessage[] {
+        return [
+            ...(this.systemPrompt ? [{ role: "system" as const, content: this.systemPrompt }] : []),
+            ...(this.summary ? [{ role: "system" as const, content: `Summary of the earlier conversation: ${this.summary}` }] : []),
+            ...this.turns
+        ];
+    }
+
+    /**
+     * Sends a message with the accumulated history.
+     *
+     * @param {string} message - The user's message.
+     * @param {boolean} [stream=false] - Stream the reply; the turn is recorded once the stream completes.
+     */
+    public async send<T = string>(message: string, options: IRequestOptions & { stream: true }): Promise<IErrorMessage | IResponseStream<T>>;
+    public async send<T = string>(message: string, options?: IRequestOptions & { stream?: false }): Promise<IErrorMessage | IQueryResourceCollectionDynamic<T>>;
+    public async send<T = string>(message: string, { stream = false, ...options }: IRequestOptions & { stream?: boolean } = {}):
+        Promise<IErrorMessage | IQueryResourceCollectionDynamic<T> | IResponseStream<T>> {
+        const params = { ...options, collection_id: this.collection_id, message, chat_history: this.chatHistory };
+
+        if (!stream) {
+            const res = await this.sdk.chat<T>(params);
+            if ("success" in res && res.success) {
+                await this.record(message, toContent(res.response), res.tokens);
+            }
+            return res;
+        }
+
+        const res = await this.sdk.chat<T>({ ...params, stream: true });
+        if (!(Symbol.asyncIterator in res)) return res;
+
+        const session = this;
+        return new QueryStream<T>((async function* () {
+            let reply = "";
+            for await (const chunk of res) {
+                if (chunk.done) {
+                    if (chunk.success) await session.record(message, reply, chunk.tokens || 0);
+                } else {
+                    reply += toContent(chunk.response);
+                }
+                yield chunk;
+            }
+        })(), { onCancel: () => void res.cancel() });
+    }
+
+    /** Forgets the conversation (the pinned system prompt is kept). */
+    public clear() {
+        this.turns = [];
+        this.summary = undefined;
+    }
+
+    public toJSON(): IChatSessionState {
+        return {
+            collection_id: this.collection_id,
+            systemPrompt: this.systemPrompt,
+            maxTurns: this.maxTurns,
+            maxHistoryTokens: this.maxHistoryTokens,
+            summary: this.summary,
+            history: this.history,
+            tokens: this.tokens
+        };
+    }
+
+    private async record(message: string, reply: string, tokens: number) {
+        this.turns.push({ role: "user", content: message }, { role: "system", content: reply });
+        this.tokens += tokens || 0;
+        await this.truncate();
+    }
+
+    /** Drops (or summarizes) the oldest turns until the history fits `maxTurns` and `maxHistoryTokens`. */
+    private async truncate() {
+        const dropped: IChatMessage[] = [];
+        const overBudget = () =>
+            (this.maxTurns !== undefined && this.turns.length / 2 > this.maxTurns)
+            || (this.maxHistoryTokens !== undefined && this.turns.length > 2 && estimateTokens(this.chatHistory) > this.maxHistoryTokens);
+
+        while (this.turns.length && overBudget()) {
+            dropped.push(...this.turns.splice(0, 2));
+        }
+
+        if (dropped.length && this.summarize) {
+            this.summary = await this.summarize(dropped, this.summary);
+        }
+    }
+}
@@ -0,0 +1,42 @@
+import { readdir, stat } from "fs/promises";
+import { join, relative, resolve, sep } from "path";
+import { globToRegExp } from "../glob.js";
+
+export function hasGlob(pattern: string): boolean {
+    return /[*?[]/.test(pattern);
+}
+
+export async function isFile(path: string): Promise<boolean> {
+    return stat(path).then((s) => s.isFile(), () => false);
+}
+
+/**
+ * Lists the files matching a glob, sorted. Walks from the pattern's static prefix
+ * and, like shells, skips dot-files and `node_modules`.
+ */
+export async function expandGlob(pattern: string, cwd = "."): Promise<string[]> {
+    const segments = pattern.split(/[\\/]/);
+    const firstGlob = segments.findIndex(hasGlob);
+    const base = segments.slice(0, firstGlob).join("/") || (pattern.startsWith("/") ? "/" : ".");
+    const rest = segments.slice(firstGlob);
+    const matcher = globToRegExp(rest.join("/"));
+    // without `**` there is no point walking deeper than the pattern
+    const maxDepth = rest.some((segment) => segment.includes("**")) ? Infinity : rest.length;
+    const root = resolve(cwd, base);
+    const matches: string[] = [];
+
+    const walk = async (dir: string, depth: number) => {
+        const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+        for (const entry of entries) {
+            if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+            const path = join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (depth < maxDepth) await walk(path, depth + 1);
+            } else if (entry.isFile() && matcher.test(relative(root, path).split(sep).join("/"))) {
+                matches.push(join(base, relative(root, path)));
+            }
+        }
+    };
+    await walk(root, 1);
+    return matches.sort();
+}
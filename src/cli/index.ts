@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+import { run } from "./run.js";
+
+run(process.argv.slice(2), { stdout: process.stdout, stderr: process.stderr, stdin: process.stdin, env: process.env })
+    .then((code) => { process.exitCode = code; });
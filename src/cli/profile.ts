@@ -0,0 +1,41 @@
+import { readFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import type { IWetrocloudOptions } from "../types/index.js";
+
+/** Connection settings stored under a profile name in the CLI config file. */
+export type ICliProfile = Pick<IWetrocloudOptions, "apiSecret" | "baseURL" | "apiVersion" | "timeout" | "model">;
+
+export const CONFIG_PATH_ENV = "WETROCLOUD_CONFIG";
+export const PROFILE_ENV = "WETROCLOUD_PROFILE";
+export const DEFAULT_PROFILE = "default";
+
+/** `$WETROCLOUD_CONFIG`, or `~/.wetrocloud/config.json`. */
+export function configPath(env: Record<string, string | undefined>): string {
+    return env[CONFIG_PATH_ENV] || join(homedir(), ".wetrocloud", "config.json");
+}
+
+/**
+ * Reads a profile from the config file, a JSON object of profiles:
+ * `{ "default": { "apiSecret": "..." }, "staging": { "apiSecret": "...", "baseURL": "..." } }`.
+ *
+ * A missing file or `default` profile yields `{}` (the key can come from the environment);
+ * asking for any other profile that does not exist is an error.
+ */
+export async function loadProfile(name: string | undefined, env: Record<string, string | undefined>): Promise<ICliProfile> {
+    const profile = name || env[PROFILE_ENV] || DEFAULT_PROFILE;
+    const path = configPath(env);
+
+    let profiles: Record<string, ICliProfile> = {};
+    try {
+        profiles = JSON.parse(await readFile(path, "utf8"));
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+            throw new Error(`Cannot read ${path}: ${(e as Error).message}`);
+        }
+    }
+
+    if (profiles[profile]) return profiles[profile];
+    if (profile === DEFAULT_PROFILE) return {};
+    throw new Error(`Profile "${profile}" not found in ${path}`);
+}
@@ -0,0 +1,359 @@
+import { readFile } from "fs/promises";
+import { createInterface } from "readline";
+import { parseArgs } from "util";
+import Wetrocloud from "../index.js";
+import { WetrocloudError } from "../errors.js";
+import { formatSyncPlan } from "../sync.js";
+import {
+    IBulkInsertItem,
+    IErrorMessage,
+    IResponseStream,
+    IWetrocloudOptions,
+    JsonSchemaExample,
+    ResourceType
+} from "../types/index.js";
+import { expandGlob, hasGlob, isFile } from "./files.js";
+import { loadProfile } from "./profile.js";
+
+export interface ICliIO {
+    stdout: { write(text: string): unknown },
+    stderr: { write(text: string): unknown },
+    /** Lines read by the `chat` REPL. */
+    stdin: NodeJS.ReadableStream & { isTTY?: boolean },
+    env: Record<string, string | undefined>,
+    /** Builds the client; tests swap in a mock. */
+    createClient?: (options: IWetrocloudOptions) => Wetrocloud
+}
+
+/** Wrong arguments: reported with the usage text and exit code 2. */
+class UsageError extends Error { }
+
+export const USAGE = `Usage: wetrocloud <command> [options]
+
+Commands:
+  collections list                          List collections
+  collections create [collection_id]        Create a collection (random id when omitted)
+  collections delete <collection_id>        Delete a collection and its resources
+  resources insert <collection_id> <resource...>
+                                            Insert URLs, text, files or globs ("docs/**/*.md")
+  resources delete <collection_id> <resource_id...>
+                                            Delete resources
+  sync <collection_id> <dir>                Make a collection mirror a directory (--dry-run shows the plan)
+  query <collection_id> <question>          Ask a collection (streams the answer)
+  chat <collection_id>                      Chat with a collection interactively (/clear, /exit)
+  categorize <resource> --categories a,b --prompt <prompt>
+                                            Categorize a URL or text
+  extract <url> --json-schema <file>        Extract structured data from a website
+  generate <prompt> --model <model>         Generate text without a collection
+  image-to-text <image> <question>          Ask about an image URL or local image file
+
+Options:
+  -o, --output <text|json>   Output format; json prints the full response for piping (default: text)
+  -p, --profile <name>       Profile of ~/.wetrocloud/config.json (default: $WETROCLOUD_PROFILE or "default")
+  -t, --type <type>          Resource type: web, file, text, json or youtube (detected when omitted)
+      --json-schema <file>   JSON file with the example shape of the answer
+  -m, --model <model>        Model to answer with (default: the profile's "model")
+      --system <prompt>      System prompt for chat and generate
+      --categories <list>    Comma-separated categories for categorize
+      --prompt <prompt>      Instruction for categorize
+      --no-stream            Wait for the whole answer instead of streaming it
+      --include <glob>       Files to sync, repeatable (default: every file)
+      --exclude <glob>       Files to leave out of a sync, repeatable
+      --dry-run              Print what sync would do without doing it
+  -h, --help                 Show this help
+
+The API key is read from $WETROCLOUD_API_KEY, or from the profile's "apiSecret".`;
+
+const OPTIONS = {
+    output: { type: "string", short: "o", default: "text" },
+    profile: { type: "string", short: "p" },
+    type: { type: "string", short: "t" },
+    "json-schema": { type: "string" },
+    model: { type: "string", short: "m" },
+    system: { type: "string" },
+    categories: { type: "string" },
+    prompt: { type: "string" },
+    "no-stream": { type: "boolean", default: false },
+    include: { type: "string", multiple: true },
+    exclude: { type: "string", multiple: true },
+    "dry-run": { type: "boolean", default: false },
+    help: { type: "boolean", short: "h", default: false }
+} as const;
+
+type Flags = ReturnType<typeof parseArgs<{ options: typeof OPTIONS, allowPositionals: true }>>["values"];
+
+interface Context {
+    sdk: Wetrocloud,
+    io: ICliIO,
+    flags: Flags,
+    json: boolean
+}
+
+/**
+ * Runs the `wetrocloud` command line and resolves to its exit code:
+ * `0` on success, `1` when the API call failed, `2` on wrong arguments.
+ */
+export async function run(argv: string[], io: ICliIO): Promise<number> {
+    try {
+        const { values: flags, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+        if (flags.help || !positionals.length) {
+            io.stdout.write(`${USAGE}\n`);
+            return flags.help ? 0 : 2;
+        }
+        if (flags.output !== "text" && flags.output !== "json") throw new UsageError(`Unknown output format "${flags.output}"`);
+
+        const profile = await loadProfile(flags.profile, io.env);
+        const options: IWetrocloudOptions = { ...profile, apiSecret: io.env.WETROCLOUD_API_KEY || profile.apiSecret, throwOnError: true };
+        if (!options.apiSecret) throw new UsageError("No API key: set WETROCLOUD_API_KEY or add \"apiSecret\" to your profile");
+        const sdk = (io.createClient || ((options) => new Wetrocloud(options)))(options);
+
+        const [command, ...args] = positionals;
+        const context: Context = { sdk, io, flags, json: flags.output === "json" };
+        switch (command) {
+            case "collections": return await collections(context, args);
+            case "resources": return await resources(context, args);
+            case "sync": return await sync(context, args);
+            case "query": return await query(context, args);
+            case "chat": return await chat(context, args);
+            case "categorize": return await categorize(context, args);
+            case "extract": return await extract(context, args);
+            case "generate": return await generate(context, args);
+            case "image-to-text": return await imageToText(context, args);
+            default: throw new UsageError(`Unknown command "${command}"`);
+        }
+    } catch (e) {
+        if (e instanceof UsageError || (e as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")) {
+            io.stderr.write(`${(e as Error).message}\n\n${USAGE}\n`);
+            return 2;
+        }
+        io.stderr.write(`${e instanceof WetrocloudError ? e.name : "Error"}: ${(e as Error).message}\n`);
+        return 1;
+    }
+}
+
+function required(value: string | undefined, name: string): string {
+    if (!value) throw new UsageError(`Missing ${name}`);
+    return value;
+}
+
+/** Prints a result: the whole object with `--output json`, otherwise `text(result)`. */
+function print<R>({ io, json }: Context, result: R, text: (result: R) => string) {
+    io.stdout.write(`${json ? JSON.stringify(result, null, 2) : text(result)}\n`);
+}
+
+/** With `throwOnError` every failure rejects; this narrows the `| IErrorMessage` away. */
+function ok<R>(result: R | IErrorMessage): R {
+    return result as R;
+}
+
+const show = (value: unknown) => typeof value === "string" ? value : JSON.stringify(value, null, 2);
+
+async function readSchema(path?: string): Promise<JsonSchemaExample | undefined> {
+    if (!path) return undefined;
+    try {
+        return JSON.parse(await readFile(path, "utf8"));
+    } catch (e) {
+        throw new UsageError(`Cannot read --json-schema ${path}: ${(e as Error).message}`);
+    }
+}
+
+function resourceType(type?: string): ResourceType | undefined {
+    if (!type) return undefined;
+    if (!Object.values(ResourceType).includes(type as ResourceType)) throw new UsageError(`Unknown resource type "${type}"`);
+    return type as ResourceType;
+}
+
+/** Guesses the type of a command-line resource: URL, local file or plain text. */
+async function detectType(resource: string): Promise<ResourceType> {
+    if (/^https?:\/\/(www\.)?(youtube\.com|youtu\.be)\//i.test(resource)) return ResourceType.YOUTUBE;
+    if (/^https?:\/\//i.test(resource)) return ResourceType.WEB;
+    if (await isFile(resource)) return ResourceType.FILE;
+    return ResourceType.TEXT;
+}
+
+/** Writes a stream's text as it arrives and resolves to the tokens reported by its last chunk. */
+async function pipeStream({ io }: Context, stream: IResponseStream<unknown>): Promise<number> {
+    let tokens = 0;
+    for await (const chunk of stream) {
+        if (chunk.done) tokens = chunk.tokens || 0;
+        else io.stdout.write(show(chunk.response));
+    }
+    io.stdout.write("\n");
+    return tokens;
+}
+
+async function collections(context: Context, [action, collection_id]: string[]): Promise<number> {
+    const { sdk } = context;
+    switch (action) {
+        case "list":
+            print(context, ok(await sdk.listCollections()), (list) =>
+                list.map((c) => `${c.collection_id}\t${c.created_at}`).join("\n") || "No collections");
+            return 0;
+        case "create":
+            print(context, ok(await sdk.createCollection({ collection_id })), (res) => `Created ${res.collection_id}`);
+            return 0;
+        case "delete":
+            print(context, ok(await sdk.deleteCollection({ collection_id: required(collection_id, "collection_id") })),
+                () => `Deleted ${collection_id}`);
+            return 0;
+        default:
+            throw new UsageError(`Unknown collections action "${action || ""}", expected list, create or delete`);
+    }
+}
+
+async function resources(context: Context, [action, collection_id, ...items]: string[]): Promise<number> {
+    const { sdk, io, flags, json } = context;
+    required(collection_id, "collection_id");
+    if (!items.length) throw new UsageError(action === "delete" ? "Missing resource_id" : "Missing resource");
+
+    if (action === "delete") {
+        for (const resource_id of items) {
+            print(context, ok(await sdk.deleteResource({ collection_id, resource_id })), () => `Deleted ${resource_id}`);
+        }
+        return 0;
+    }
+    if (action !== "insert") throw new UsageError(`Unknown resources action "${action}", expected insert or delete`);
+
+    const type = resourceType(flags.type);
+    const batch: IBulkInsertItem<string>[] = [];
+    for (const item of items) {
+        if (hasGlob(item) && !/^https?:\/\//i.test(item)) {
+            const files = await expandGlob(item);
+            if (!files.length) throw new UsageError(`No files match ${item}`);
+            batch.push(...files.map((file) => ({ resource: file, type: type || ResourceType.FILE, metadata: file })));
+        } else {
+            batch.push({ resource: item, type: type || await detectType(item), metadata: item });
+        }
+    }
+
+    const report = await sdk.insertResources<string>({
+        collection_id,
+        resources: batch,
+        onProgress: json ? undefined : ({ completed, total, result }) => {
+            const outcome = result.status === "fulfilled" ? result.resource_id : result.status === "rejected" ? `failed: ${result.error.message}` : "skipped";
+            io.stderr.write(`[${completed}/${total}] ${result.metadata} ${outcome}\n`);
+        }
+    });
+    print(context, report, (r) => `Inserted ${r.succeeded} of ${batch.length} resources (${r.tokens} tokens)`);
+    return report.failed ? 1 : 0;
+}
+
+async function sync(context: Context, [collection_id, dir]: string[]): Promise<number> {
+    const { sdk, io, flags, json } = context;
+    const report = ok(await sdk.syncDirectory({
+        collection_id: required(collection_id, "collection_id"),
+        dir: required(dir, "dir"),
+        include: flags.include,
+        exclude: flags.exclude,
+        dryRun: flags["dry-run"],
+        onProgress: json ? undefined : ({ path, action, completed, total, error }) =>
+            io.stderr.write(`[${completed}/${total}] ${action} ${path}${error ? ` failed: ${error.message}` : ""}\n`)
+    }));
+
+    print(context, report, (r) => r.dryRun
+        ? formatSyncPlan(r.plan)
+        : `Synced ${dir}: ${r.plan.insert.length} inserted, ${r.plan.replace.length} replaced, ${r.plan.remove.length} removed, ` +
+        `${r.failed.length} failed (${r.tokens} tokens)`);
+    return report.failed.length ? 1 : 0;
+}
+
+async function query(context: Context, [collection_id, ...question]: string[]): Promise<number> {
+    const { sdk, io, flags, json } = context;
+    const params = {
+        collection_id: required(collection_id, "collection_id"),
+        request_query: required(question.join(" "), "question"),
+        json_schema: await readSchema(flags["json-schema"]),
+        model: flags.model
+    };
+
+    if (json || flags["no-stream"]) {
+        print(context, ok(await sdk.queryResource({ ...params, stream: false })), (res) => show(res.response));
+        return 0;
+    }
+    const tokens = await pipeStream(context, ok(await sdk.queryResource({ ...params, stream: true })));
+    io.stderr.write(`(${tokens} tokens)\n`);
+    return 0;
+}
+
+async function chat(context: Context, [collection_id]: string[]): Promise<number> {
+    const { sdk, io, flags, json } = context;
+    const session = sdk.chatSession({ collection_id: required(collection_id, "collection_id"), systemPrompt: flags.system });
+    const interactive = !!io.stdin.isTTY;
+    const lines = createInterface({ input: io.stdin, terminal: false });
+
+    if (interactive) io.stdout.write(`Chatting with ${collection_id}. /clear forgets the conversation, /exit or Ctrl+D quits.\n> `);
+    for await (const line of lines) {
+        const message = line.trim();
+        if (message === "/exit") break;
+        if (message === "/clear") {
+            session.clear();
+        } else if (message) {
+            if (json || flags["no-stream"]) {
+                print(context, ok(await session.send(message)), (res) => show(res.response));
+            } else {
+                await pipeStream(context, ok(await session.send(message, { stream: true })));
+            }
+        }
+        if (interactive) io.stdout.write("> ");
+    }
+    lines.close();
+    if (interactive) io.stdout.write("\n");
+    if (!json) io.stderr.write(`(${session.tokens} tokens)\n`);
+    return 0;
+}
+
+async function categorize(context: Context, [resource, ...rest]: string[]): Promise<number> {
+    const { sdk, flags } = context;
+    const text = [resource, ...rest].join(" ");
+    const res = ok(await sdk.categorize({
+        resource: required(text, "resource"),
+        type: resourceType(flags.type) || await detectType(text),
+        categories: required(flags.categories, "--categories").split(",").map((c) => c.trim()).filter(Boolean),
+        prompt: required(flags.prompt, "--prompt"),
+        json_schema: await readSchema(flags["json-schema"]) || { category: "string" }
+    }));
+    print(context, res, (r) => show(r.response));
+    return 0;
+}
+
+async function extract(context: Context, [website_url]: string[]): Promise<number> {
+    const { sdk, flags } = context;
+    const res = ok(await sdk.extract({
+        website_url: required(website_url, "url"),
+        json_schema: (await readSchema(required(flags["json-schema"], "--json-schema")))!
+    }));
+    print(context, res, (r) => show(r.response));
+    return 0;
+}
+
+async function generate(context: Context, prompt: string[]): Promise<number> {
+    const { sdk, io, flags, json } = context;
+    const params = {
+        // the profile's default model makes --model optional
+        model: sdk.defaultModel ? flags.model : required(flags.model, "--model"),
+        messages: [
+            ...(flags.system ? [{ role: "system" as const, content: flags.system }] : []),
+            { role: "user" as const, content: required(prompt.join(" "), "prompt") }
+        ]
+    };
+
+    if (json || flags["no-stream"]) {
+        print(context, ok(await sdk.textGeneration({ ...params, stream: false })), (res) => show(res.response));
+        return 0;
+    }
+    const tokens = await pipeStream(context, ok(await sdk.textGeneration({ ...params, stream: true })));
+    io.stderr.write(`(${tokens} tokens)\n`);
+    return 0;
+}
+
+async function imageToText(context: Context, [image, ...question]: string[]): Promise<number> {
+    const { sdk, flags } = context;
+    const params = {
+        image: required(image, "image"),
+        request_query: required(question.join(" "), "question")
+    };
+    const json_schema = await readSchema(flags["json-schema"]);
+    const res = ok(json_schema ? await sdk.imageToText({ ...params, json_schema }) : await sdk.imageToText(params));
+    print(context, res, (r) => show(r.response));
+    return 0;
+}
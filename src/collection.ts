@@ -0,0 +1,95 @@
+import type Wetrocloud from "./index.js";
+import type { ChatSession, IChatSessionOptions } from "./chatSession.js";
+import type { SchemaInput } from "./schema.js";
+import {
+    IBulkInsertItem,
+    IBulkInsertProgress,
+    IBulkInsertReport,
+    IChatParams,
+    IErrorMessage,
+    IGenericResponse,
+    IInsertResourceCollection,
+    InferJsonSchema,
+    IQueryResourceCollectionDynamic,
+    IQueryResourceParams,
+    IRequestOptions,
+    IResponseStream,
+    IStructuredResponse,
+    ISyncDirectoryParams,
+    ISyncReport,
+    JsonSchemaExample
+} from "./types/index.js";
+
+type WithoutCollection<P> = Omit<P, "collection_id">;
+type QueryParams<T = unknown> = WithoutCollection<IQueryResourceParams<T>>;
+type ChatParams = Omit<IChatParams, "collection_id" | "chat_history"> & { chat_history?: IChatParams["chat_history"] };
+
+/**
+ * A handle on one collection, so its id is not repeated on every call.
+ * Each method forwards to the matching `Wetrocloud` method and resolves the same way.
+ *
+ * @example
+ * const docs = sdk.collection("docs");
+ * await docs.insert({ resource: "https://example.com", type: ResourceType.WEB });
+ * const answer = await docs.query({ request_query: "What is this site about?", stream: false });
+ */
+export class Collection {
+    constructor(private sdk: Wetrocloud, public readonly collection_id: string) { }
+
+    /** Inserts a resource into this collection. See `Wetrocloud.insertResource`. */
+    public insert(params: WithoutCollection<Parameters<Wetrocloud["insertResource"]>[0]>): Promise<IInsertResourceCollection | IErrorMessage> {
+        return this.sdk.insertResource({ ...params, collection_id: this.collection_id });
+    }
+
+    /** Inserts many resources into this collection. See `Wetrocloud.insertResources`. */
+    public insertMany<M = unknown>(params: {
+        resources: IBulkInsertItem<M>[],
+        concurrency?: number,
+        stopOnError?: boolean,
+        onProgress?: (progress: IBulkInsertProgress<M>) => void
+    } & IRequestOptions): Promise<IBulkInsertReport<M>> {
+        return this.sdk.insertResources<M>({ ...params, collection_id: this.collection_id });
+    }
+
+    /** Makes this collection mirror a local directory. See `Wetrocloud.syncDirectory`. */
+    public sync(params: WithoutCollection<ISyncDirectoryParams>): Promise<ISyncReport | IErrorMessage> {
+        return this.sdk.syncDirectory({ ...params, collection_id: this.collection_id });
+    }
+
+    /** Queries this collection. See `Wetrocloud.queryResource`. */
+    public query<T>(params: QueryParams<T> & { schema: SchemaInput<T>, stream?: false }): Promise<IErrorMessage | IStructuredResponse<T>>;
+    public query<const S extends JsonSchemaExample>(params: QueryParams & { json_schema: S, stream: false }):
+        Promise<IErrorMessage | IStructuredResponse<InferJsonSchema<S>>>;
+    public query<const S extends JsonSchemaExample>(params: QueryParams & { json_schema: S, stream?: true }):
+        Promise<IErrorMessage | IResponseStream<InferJsonSchema<S>>>;
+    public query(params: QueryParams & { json_schema?: undefined, stream: false }): Promise<IErrorMessage | IStructuredResponse<string>>;
+    public query(params: QueryParams & { json_schema?: undefined, stream?: true }): Promise<IErrorMessage | IResponseStream<string>>;
+    public query<T = unknown>(params: QueryParams<T>): Promise<IErrorMessage | IStructuredResponse<T> | IResponseStream<T>>;
+    public query<T = unknown>(params: QueryParams<T>): Promise<IErrorMessage | IStructuredResponse<T> | IResponseStream<T>> {
+        return this.sdk.queryResource<T>({ ...params, collection_id: this.collection_id });
+    }
+
+    /** Chats with this collection; `chat_history` defaults to an empty history. See `Wetrocloud.chat`. */
+    public chat<T = string>(params: ChatParams & { stream: true }): Promise<IErrorMessage | IResponseStream<T>>;
+    public chat<T = string>(params: ChatParams & { stream?: false }): Promise<IErrorMessage | IQueryResourceCollectionDynamic<T>>;
+    public chat<T = string>(params: ChatParams): Promise<IErrorMessage | IQueryResourceCollectionDynamic<T> | IResponseStream<T>>;
+    public chat<T = string>({ chat_history = [], ...params }: ChatParams):
+        Promise<IErrorMessage | IQueryResourceCollectionDynamic<T> | IResponseStream<T>> {
+        return this.sdk.chat<T>({ ...params, chat_history, collection_id: this.collection_id });
+    }
+
+    /** Starts a {@link ChatSession} with this collection. See `Wetrocloud.chatSession`. */
+    public chatSession(options: WithoutCollection<IChatSessionOptions> = {}): ChatSession {
+        return this.sdk.chatSession({ ...options, collection_id: this.collection_id });
+    }
+
+    /** Deletes a resource from this collection. See `Wetrocloud.deleteResource`. */
+    public deleteResource({ resource_id, ...options }: { resource_id: string } & IRequestOptions): Promise<IGenericResponse | IErrorMessage> {
+        return this.sdk.deleteResource({ ...options, resource_id, collection_id: this.collection_id });
+    }
+
+    /** Deletes this collection and everything in it. See `Wetrocloud.deleteCollection`. */
+    public delete(options: IRequestOptions = {}): Promise<IGenericResponse | IErrorMessage> {
+        return this.sdk.deleteCollection({ ...options, collection_id: this.collection_id });
+    }
+}
@@ -1,10 +1,11 @@
-
 const Config = {
     WETROCLOUD: {
         API_URL: "https://api.wetrocloud.com",
-    },
-    TEST: {
-        WETROCLOUD_SECRET_KEY: process.env.WETROCLOUD_SECRET_KEY!
+        API_VERSION: "v1",
+        REFERRER: "node_sdk",
+        API_KEY_ENV: "WETROCLOUD_API_KEY",
+        MAX_UPLOAD_BYTES: 50 * 1024 * 1024,
+        MAX_IMAGE_BYTES: 20 * 1024 * 1024
     }
 };
 
@@ -14,4 +15,4 @@ export default Config;
 if (typeof module !== 'undefined') {
     module.exports = Config;
 
-  }
\ No newline at end of file
+  }
@@ -0,0 +1,107 @@
+/**
+ * Base class for every error raised by the WetroCloud SDK.
+ *
+ * Carries the HTTP status (when the server answered), the raw server payload
+ * and the request id returned by the API, so callers can branch on the
+ * error class instead of parsing messages.
+ */
+export class WetrocloudError extends Error {
+    public readonly status?: number;
+    public readonly data?: unknown;
+    public readonly requestId?: string;
+    public readonly code?: string;
+
+    constructor(message: string, {
+        status,
+        data,
+        requestId,
+        code,
+        cause
+    }: {
+        status?: number,
+        data?: unknown,
+        requestId?: string,
+        code?: string,
+        cause?: unknown
+    } = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.status = status;
+        this.data = data;
+        this.requestId = requestId;
+        this.code = code;
+        if (cause !== undefined) {
+            Object.defineProperty(this, "cause", { value: cause, enumerable: false, configurable: true });
+        }
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+/** The API secret is missing or invalid (HTTP 401). */
+export class AuthenticationError extends WetrocloudError { }
+
+/** The API secret is valid but not allowed to perform the request (HTTP 403). */
+export class PermissionDeniedError extends WetrocloudError { }
+
+/** The collection, resource or endpoint does not exist (HTTP 404). */
+export class NotFoundError extends WetrocloudError { }
+
+/** The request was rejected because of invalid parameters (HTTP 400 / 422). */
+export class ValidationError extends WetrocloudError { }
+
+/** Too many requests (HTTP 429). `retryAfter` is in milliseconds when the server sent `Retry-After`. */
+export class RateLimitError extends WetrocloudError {
+    public readonly retryAfter?: number;
+
+    constructor(message: string, options: ConstructorParameters<typeof WetrocloudError>[1] & { retryAfter?: number } = {}) {
+        super(message, options);
+        this.retryAfter = options.retryAfter;
+    }
+}
+
+/** The API failed to process the request (HTTP 5xx). */
+export class ServerError extends WetrocloudError { }
+
+/** The request never got an HTTP response (DNS failure, connection reset, ...). */
+export class NetworkError extends WetrocloudError { }
+
+/** The request did not complete within the configured timeout. */
+export class TimeoutError extends WetrocloudError { }
+
+/**
+ * The request was cancelled through its `AbortSignal` (or `cancelRequests()`).
+ * Always rejects, even when `throwOnError` is off.
+ */
+export class RequestAbortedError extends WetrocloudError { }
+
+/** A structured response did not match the schema passed through the `schema` option. */
+export class SchemaValidationError extends WetrocloudError {
+    public readonly issues: { path: string, message: string }[];
+
+    constructor(message: string, options: ConstructorParameters<typeof WetrocloudError>[1] & { issues: { path: string, message: string }[] }) {
+        super(message, options);
+        this.issues = options.issues;
+    }
+}
+
+/** The client's hard token budget is used up; the call was not sent. */
+export class BudgetExceededError extends WetrocloudError {
+    public readonly limit: number;
+    public readonly used: number;
+
+    constructor(message: string, options: ConstructorParameters<typeof WetrocloudError>[1] & { limit: number, used: number }) {
+        super(message, options);
+        this.limit = options.limit;
+        this.used = options.used;
+    }
+}
+
+/** A line of a streamed response could not be parsed as JSON. */
+export class StreamParseError extends WetrocloudError {
+    public readonly chunk: string;
+
+    constructor(message: string, options: ConstructorParameters<typeof WetrocloudError>[1] & { chunk: string }) {
+        super(message, options);
+        this.chunk = options.chunk;
+    }
+}
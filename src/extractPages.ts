@@ -0,0 +1,137 @@
+import type Wetrocloud from "./index.js";
+import type { SchemaInput } from "./schema.js";
+import { NetworkError, ValidationError, WetrocloudError } from "./errors.js";
+import { runPool } from "./pool.js";
+import { errorMessage, isAbortError } from "./utils.js";
+import {
+    IDataExtraction,
+    IErrorMessage,
+    IExtractedRecord,
+    IExtractPageResult,
+    IExtractPagesParams,
+    IExtractPagesReport,
+    IExtractParams
+} from "./types/index.js";
+
+// sitemap indexes may point at other indexes; deeper nesting is almost certainly a loop
+const MAX_SITEMAP_DEPTH = 3;
+
+/**
+ * Extracts data from many pages; see `Wetrocloud.extractPages`.
+ *
+ * Pagination pages come last, so once `stopWhenEmpty` stops the job only
+ * further pagination pages are left out.
+ */
+export async function extractPages<T>(sdk: Wetrocloud, {
+    urls = [],
+    sitemap,
+    start_url,
+    pagination,
+    filter,
+    maxPages,
+    json_schema,
+    schema,
+    concurrency = 4,
+    fetch: fetchImpl,
+    onProgress,
+    ...options
+}: IExtractPagesParams<T>): Promise<IExtractPagesReport<T>> {
+    if (!urls.length && !sitemap && !start_url && !pagination) {
+        throw new ValidationError("Pass `urls`, `sitemap`, `start_url` or `pagination` to extract from");
+    }
+    if (pagination && !pagination.pattern.includes("{page}")) {
+        throw new ValidationError("`pagination.pattern` must contain a {page} placeholder");
+    }
+
+    const candidates = [...urls];
+    if (sitemap) {
+        const download = fetchImpl ?? globalThis.fetch?.bind(globalThis);
+        if (!download) throw new ValidationError("No fetch implementation available to download the sitemap; pass `fetch`");
+        candidates.push(...await readSitemap(download, sitemap, options.signal));
+    }
+    if (start_url) candidates.push(start_url);
+    const paginated = new Set<string>();
+    if (pagination) {
+        for (let page = pagination.from ?? 2; page <= pagination.to; page++) {
+            const url = normalizeUrl(pagination.pattern.split("{page}").join(String(page)));
+            paginated.add(url);
+            candidates.push(url);
+        }
+    }
+
+    const pages = [...new Set(candidates.map(normalizeUrl))]
+        .filter((url) => !filter || filter(url))
+        .slice(0, maxPages);
+    const results: IExtractPageResult[] = pages.map((url) => ({ url, status: "skipped" }));
+    const records: IExtractedRecord<T>[][] = pages.map(() => []);
+    let completed = 0, succeeded = 0, failed = 0, tokens = 0;
+    let paginationEnded = false;
+
+    await runPool(pages, concurrency, async (url, index) => {
+        let result: IExtractPageResult;
+        try {
+            const res = await sdk.extract<T>({ ...options, website_url: url, json_schema, schema } as IExtractParams<T> & { schema: SchemaInput<T> });
+            if ((res as IErrorMessage).error) throw (res as IErrorMessage).error;
+            const extraction = res as IDataExtraction<unknown>;
+            if (!extraction?.success) throw new WetrocloudError("Page was not extracted", { data: res });
+
+            const { response } = extraction;
+            const items = (Array.isArray(response) ? response : response == null ? [] : [response]) as T[];
+            records[index] = items.map((data) => ({ source_url: url, data }));
+            result = { url, status: "fulfilled", records: items.length, tokens: extraction.tokens || 0 };
+            tokens += result.tokens;
+            succeeded++;
+            if (!items.length && paginated.has(url) && pagination?.stopWhenEmpty !== false) paginationEnded = true;
+        } catch (e) {
+            result = { url, status: "rejected", error: errorMessage(e) };
+            failed++;
+        }
+        results[index] = result;
+        completed++;
+        onProgress?.({ completed, total: pages.length, page: result });
+    }, () => !!options.signal?.aborted || paginationEnded);
+
+    return { records: records.flat(), pages: results, succeeded, failed, skipped: pages.length - completed, tokens };
+}
+
+/** The page URLs a sitemap lists, following sitemap indexes. */
+async function readSitemap(download: typeof fetch, url: string, signal?: AbortSignal, depth = 0): Promise<string[]> {
+    let xml: string;
+    try {
+        const res = await download(url, { signal });
+        if (!res.ok) throw new WetrocloudError(`Could not download sitemap ${url}: HTTP ${res.status}`, { status: res.status });
+        xml = await res.text();
+    } catch (e) {
+        if (e instanceof WetrocloudError || isAbortError(e)) throw errorMessage(e);
+        throw new NetworkError(`Could not download sitemap ${url}`, { cause: e });
+    }
+
+    const locations = [...xml.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/g)].map(([, location]) => decodeXml(location));
+    if (!/<sitemapindex[\s>]/.test(xml)) return locations;
+    if (depth >= MAX_SITEMAP_DEPTH) return [];
+
+    const nested: string[] = [];
+    for (const location of locations) nested.push(...await readSitemap(download, location, signal, depth + 1));
+    return nested;
+}
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, "\"")
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, "&");
+}
+
+/** Drops the `#fragment`, which never changes what the server returns. */
+function normalizeUrl(url: string): string {
+    try {
+        const parsed = new URL(url.trim());
+        parsed.hash = "";
+        return parsed.href;
+    } catch {
+        return url.trim();
+    }
+}
@@ -0,0 +1,101 @@
+import { NetworkError, RequestAbortedError, TimeoutError, WetrocloudError } from "./errors.js";
+import { anySignal, errorMessage } from "./utils.js";
+
+export interface FetchRequestConfig {
+    url: string,
+    method: string,
+    headers: Record<string, string>,
+    data?: unknown,
+    timeout?: number,
+    responseType?: string,
+    signal?: AbortSignal,
+    /** Called with the HTTP status of a successful response. */
+    onStatus?: (status: number) => void
+}
+
+/**
+ * Performs a single request with a `fetch` implementation and mirrors what the
+ * Axios transport resolves to: the parsed body, or the raw `ReadableStream`
+ * when `responseType` is `"stream"`. Failures are thrown as `WetrocloudError`s.
+ */
+export async function fetchRequest(fetchImpl: typeof fetch, {
+    url,
+    method,
+    headers,
+    data,
+    timeout,
+    responseType,
+    signal,
+    onStatus
+}: FetchRequestConfig): Promise<any> {
+    const requestHeaders = { ...headers };
+    // the timeout covers the whole response except a streamed body, which only `signal` covers
+    const timeoutController = new AbortController();
+    let timedOut = false;
+    const timer = timeout ? setTimeout(() => {
+        timedOut = true;
+        timeoutController.abort();
+    }, timeout) : undefined;
+
+    try {
+        const response = await fetchImpl(url, {
+            method,
+            headers: requestHeaders,
+            body: encodeBody(data, requestHeaders),
+            signal: anySignal([signal, timeoutController.signal])
+        });
+
+        if (!response.ok) {
+            throw errorMessage({
+                message: `Request failed with status code ${response.status}`,
+                response: { status: response.status, data: await readBody(response), headers: response.headers }
+            });
+        }
+
+        onStatus?.(response.status);
+        if (responseType === "stream") return response.body;
+        return await readBody(response);
+    } catch (e: any) {
+        if (e instanceof WetrocloudError) throw e;
+        if (timedOut) {
+            throw new TimeoutError(`timeout of ${timeout}ms exceeded`, { code: "ETIMEDOUT", cause: e });
+        }
+        if (signal?.aborted) {
+            throw new RequestAbortedError("Request was aborted", { code: "ERR_CANCELED", cause: e });
+        }
+        throw new NetworkError(e?.message || "Network error", { code: e?.cause?.code || "ERR_NETWORK", cause: e });
+    } finally {
+        if (timer) clearTimeout(timer);
+    }
+}
+
+/**
+ * Serializes the request body the way the Axios transport does: plain objects and
+ * `FormData` go out as JSON unless the caller asked for `multipart/form-data`.
+ */
+function encodeBody(data: unknown, headers: Record<string, string>): BodyInit | undefined {
+    if (data === undefined || data === null) return undefined;
+    const contentTypeKey = Object.keys(headers).find((key) => key.toLowerCase() === "content-type");
+    const contentType = contentTypeKey ? headers[contentTypeKey] : "";
+
+    if (typeof FormData !== "undefined" && data instanceof FormData) {
+        if (contentType.includes("multipart/form-data")) {
+            // let fetch generate the multipart boundary
+            if (contentTypeKey) delete headers[contentTypeKey];
+            return data;
+        }
+        return JSON.stringify(Object.fromEntries(data.entries()));
+    }
+    if (typeof data === "string") return data;
+    return JSON.stringify(data);
+}
+
+async function readBody(response: Response): Promise<unknown> {
+    const text = await response.text();
+    if (!text) return undefined;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
@@ -0,0 +1,36 @@
+/** Converts a glob (`*`, `**`, `?`, `[abc]`) to a regular expression matching `/`-separated paths. */
+export function globToRegExp(pattern: string): RegExp {
+    let source = "";
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === "*" && pattern[i + 1] === "*") {
+            const slash = pattern[i + 2] === "/";
+            source += slash ? "(?:.*/)?" : ".*";
+            i += slash ? 2 : 1;
+        } else if (char === "*") {
+            source += "[^/]*";
+        } else if (char === "?") {
+            source += "[^/]";
+        } else if (char === "[") {
+            const end = pattern.indexOf("]", i);
+            if (end === -1) {
+                source += "\\[";
+            } else {
+                source += `[${pattern.slice(i + 1, end).replace(/^!/, "^")}]`;
+                i = end;
+            }
+        } else {
+            source += char.replace(/[.+^${}()|\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a relative `/`-separated path matches one of `patterns`.
+ * Like `.gitignore`, a pattern without a `/` matches the file name at any depth.
+ */
+export function matchesAny(path: string, patterns: string[]): boolean {
+    const name = path.split("/").pop() || path;
+    return patterns.some((pattern) => globToRegExp(pattern).test(pattern.includes("/") ? path : name));
+}
@@ -0,0 +1,101 @@
+import { ValidationError } from "./errors.js";
+import { loadFs } from "./upload.js";
+import { localFileError } from "./utils.js";
+
+/** An image `imageToText` can read: a URL, a data URI, a local path (Node only), bytes or a Blob. */
+export type ImageInput = string | Uint8Array | Blob;
+
+export interface IImageData {
+    bytes: Uint8Array,
+    mime_type: string
+}
+
+/** Called with every local image before it is encoded, e.g. to downscale it. */
+export type ImageTransform = (image: IImageData) => IImageData | Promise<IImageData>;
+
+export const SUPPORTED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+/** Detects the image format from its first bytes. */
+export function sniffImageType(bytes: Uint8Array): string | undefined {
+    const starts = (signature: number[], offset = 0) => signature.every((byte, i) => bytes[offset + i] === byte);
+    if (starts([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+    if (starts([0xff, 0xd8, 0xff])) return "image/jpeg";
+    if (starts([0x47, 0x49, 0x46, 0x38])) return "image/gif";
+    // "RIFF" <size> "WEBP"
+    if (starts([0x52, 0x49, 0x46, 0x46]) && starts([0x57, 0x45, 0x42, 0x50], 8)) return "image/webp";
+    if (starts([0x42, 0x4d])) return "image/bmp";
+    if (starts([0x49, 0x49, 0x2a, 0x00]) || starts([0x4d, 0x4d, 0x00, 0x2a])) return "image/tiff";
+    return undefined;
+}
+
+/**
+ * Turns an image into the `image_url` sent to the API: URLs are passed through,
+ * anything else is validated and encoded as a base64 data URI.
+ *
+ * Without `transform`, files and Blobs larger than `maxBytes` are rejected before they
+ * are read; with it, the limit applies to what `transform` returns.
+ */
+export async function toImageUrl(image: ImageInput, { maxBytes, transform }: {
+    maxBytes: number,
+    transform?: ImageTransform
+}): Promise<string> {
+    if (typeof image === "string" && /^https?:\/\//i.test(image)) return image;
+
+    let bytes: Uint8Array;
+    if (typeof image === "string" && image.startsWith("data:")) {
+        bytes = fromDataUri(image);
+    } else if (typeof image === "string") {
+        const { readFile, stat } = await loadFs();
+        try {
+            if (!transform) assertSize((await stat(image)).size, maxBytes);
+            bytes = new Uint8Array(await readFile(image));
+        } catch (e) {
+            if (e instanceof ValidationError) throw e;
+            throw localFileError(e, image);
+        }
+    } else if (image instanceof Uint8Array) {
+        bytes = image;
+    } else {
+        if (!transform) assertSize(image.size, maxBytes);
+        bytes = new Uint8Array(await image.arrayBuffer());
+    }
+
+    let data: IImageData = { bytes, mime_type: assertSupported(sniffImageType(bytes)) };
+    if (transform) {
+        data = await transform(data);
+        assertSupported(data.mime_type);
+    }
+    assertSize(data.bytes.byteLength, maxBytes);
+    return `data:${data.mime_type};base64,${toBase64(data.bytes)}`;
+}
+
+function assertSize(size: number, maxBytes: number) {
+    if (size > maxBytes) {
+        throw new ValidationError(`Image is ${size} bytes, larger than the ${maxBytes} bytes limit; pass \`transformImage\` to downscale it`);
+    }
+}
+
+function assertSupported(mime_type: string | undefined): string {
+    if (!mime_type || !SUPPORTED_IMAGE_TYPES.includes(mime_type)) {
+        throw new ValidationError(`Unsupported image format${mime_type ? ` ${mime_type}` : ""}; expected PNG, JPEG, GIF or WebP`);
+    }
+    return mime_type;
+}
+
+function fromDataUri(uri: string): Uint8Array {
+    const match = /^data:([^;,]*)((?:;[^;,]*)*?)(;base64)?,(.*)$/s.exec(uri);
+    if (!match) throw new ValidationError("Malformed data URI");
+    const [, , , base64, payload] = match;
+    if (!base64) return new TextEncoder().encode(decodeURIComponent(payload));
+    const binary = atob(payload.replace(/\s/g, ""));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = "";
+    // chunked, so large images stay within the argument limit of String.fromCharCode
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
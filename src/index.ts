@@ -1,22 +1,281 @@
-import { Readable } from "stream";
 import AxiosAPI from "./axiosApi.js";
 import {
+    IBulkInsertItem,
+    IBulkInsertProgress,
+    IBulkInsertReport,
+    IBulkInsertResult,
+    CacheControl,
+    ICategorizeParams,
+    ICategorizeResourcesParams,
+    ICategorizeResult,
     ICatergorizeResource,
+    IChatParams,
     ICreateCollection, IDataExtraction, IErrorMessage,
+    ISyncDirectoryParams,
+    ISyncReport,
+    IExtractPagesParams,
+    IExtractPagesReport,
+    IExtractParams,
+    IImageToText,
+    IImageToTextParams,
+    ExtractedItem,
     IGenericResponse,
     IInsertResourceCollection, IListCollection,
+    IMiddleware,
+    IModelCapabilities,
+    ModelId,
+    InferJsonSchema,
     IQueryResourceCollectionDynamic,
+    IQueryResourceParams,
+    IRequestOptions,
+    IResponseStream,
+    IStructuredResponse,
+    ITextGenerationParams,
+    IUsageRecord,
+    IWetrocloudOptions,
+    JsonSchemaExample,
     ResourceType
 } from "./types/index.js";
-import { errorMessage, generateRandomString, RequestMethods } from "./utils.js";
+import Config from "./config.js";
+import { errorMessage, fingerprint, generateRandomString, readEnv, RequestMethods } from "./utils.js";
+import { AuthenticationError, BudgetExceededError, RequestAbortedError, SchemaValidationError, ValidationError, WetrocloudError } from "./errors.js";
+import { matchesSchema, SchemaInput, toExampleSchema, toJsonSchema, validateResponse } from "./schema.js";
+import { runPool } from "./pool.js";
+import { ChatSession, IChatSessionOptions } from "./chatSession.js";
+import { UsageMeter } from "./usage.js";
+import { Collection } from "./collection.js";
+import { ResponseCache } from "./cache.js";
+import type { RateLimiter } from "./rateLimiter.js";
+import { syncDirectory } from "./sync.js";
+import { CategorizeReport, categorizeResources } from "./categorizeBatch.js";
+import { extractPages } from "./extractPages.js";
+import { createOperationTracer, OperationTracer } from "./telemetry.js";
+import { toImageUrl } from "./image.js";
+import { unknownModelMessage, validateModel } from "./models.js";
+import { isLocalFilePath, isUploadable, IUploadProgress, toUploadBlob, UploadableResource } from "./upload.js";
 
 
 class Wetrocloud {
     private axiosApi: AxiosAPI;
+    private throwOnError: boolean;
+    private maxUploadBytes: number;
+    private maxImageBytes: number;
+    private strictModels: boolean;
+    private warnedModels = new Set<string>();
+    /** Groups the requests of methods that make several under one span, when telemetry is on. */
+    private traceOperation: OperationTracer;
+    /** Model used by calls that do not pick one. */
+    public readonly defaultModel?: ModelId;
+    /** Tokens used by this client, per method, collection, model and tag, and its budget. */
+    public readonly usage: UsageMeter;
+    /** The response cache, when enabled through the `cache` option. */
+    public readonly cache?: ResponseCache;
+    /** The client-side rate limiter, when enabled through the `rateLimit` option. */
+    public readonly rateLimiter?: RateLimiter;
 
-    constructor({ apiSecret }: { apiSecret: string }) {
+    /**
+     * @param {string} [apiSecret] - Your WetroCloud API secret. Read from `WETROCLOUD_API_KEY` when omitted.
+     * @param {boolean} [throwOnError=false] - When `true`, failed calls reject with a typed
+     * {@link WetrocloudError} instead of resolving to the legacy `{ message }` object.
+     * @param {Partial<RetryOptions> | false} [retry] - Retry policy for transient failures (429, 5xx, dropped sockets).
+     * Read-only calls are retried by default; set `retryNonIdempotent` to also retry creates and inserts,
+     * or pass `false` to disable retries.
+     * @param {string} [baseURL] - API host, defaults to `https://api.wetrocloud.com`.
+     * @param {string} [apiVersion="v1"] - API version path segment.
+     * @param {number} [timeout] - Default timeout in milliseconds for every call.
+     * @param {Record<string, string>} [headers] - Extra headers sent with every request.
+     * @param {string} [userAgent] - Overrides the `User-Agent` header.
+     * @param {string} [referrer="node_sdk"] - Overrides the `referrer` query parameter.
+     * @param {AxiosProxyConfig | false} [proxy] - Proxy for the default transport.
+     * @param {AxiosInstance} [axiosInstance] - Custom Axios instance to send requests with.
+     * @param {typeof fetch} [fetch] - A fetch implementation to send requests with instead of Axios
+     * (the default outside Node).
+     * @param {number} [maxUploadBytes] - Largest file `insertResource` will upload. Defaults to 50 MB.
+     * @param {number} [maxImageBytes] - Largest local image `imageToText` will send. Defaults to 20 MB.
+     * @param {ModelId} [model] - Model used by `queryResource` and `textGeneration` calls that do not pick one.
+     * @param {boolean} [strictModels=false] - Reject model ids missing from {@link MODEL_CATALOG} instead of logging a warning.
+     * @param {IUsageBudget} [budget] - Soft and hard token limits across every call; see {@link Wetrocloud.usage}.
+     * @param {ILogger} [logger=console] - Where log lines go; the API secret is masked before they get there.
+     * @param {LogLevel} [logLevel="warn"] - Lowest level that is logged.
+     * @param {IMiddleware[]} [middleware] - Hooks run around every request (see {@link Wetrocloud.use}).
+     * @param {boolean | ITelemetryOptions} [telemetry] - OpenTelemetry spans and latency/token histograms per call.
+     * @param {boolean | ICacheOptions} [cache] - Reuse answers of identical `queryResource`, `extract` and `categorize` calls.
+     * @param {IRateLimitOptions} [rateLimit] - Requests per interval and in flight, per endpoint if needed; calls with a
+     * higher `priority` are sent first.
+     *
+     * @example
+     * const sdk = new Wetrocloud({
+     *     apiSecret: "your-api-secret",
+     *     baseURL: "https://staging.example.com",
+     *     timeout: 30_000
+     * });
+     */
+    constructor({
+        apiSecret,
+        throwOnError = false,
+        maxUploadBytes = Config.WETROCLOUD.MAX_UPLOAD_BYTES,
+        maxImageBytes = Config.WETROCLOUD.MAX_IMAGE_BYTES,
+        model,
+        strictModels = false,
+        budget,
+        cache,
+        ...options
+    }: IWetrocloudOptions = {}) {
+        apiSecret = apiSecret || readEnv(Config.WETROCLOUD.API_KEY_ENV);
         if (!apiSecret) throw new Error("apiSecret is required!")
-        this.axiosApi = new AxiosAPI({ apiSecret });
+        this.axiosApi = new AxiosAPI({ ...options, apiSecret });
+        this.throwOnError = throwOnError;
+        this.maxUploadBytes = maxUploadBytes;
+        this.maxImageBytes = maxImageBytes;
+        this.defaultModel = model;
+        this.strictModels = strictModels;
+        this.usage = new UsageMeter(budget, this.axiosApi.logger);
+        this.rateLimiter = this.axiosApi.limiter;
+        this.traceOperation = options.telemetry
+            ? createOperationTracer(options.telemetry === true ? {} : options.telemetry)
+            : (_operation, run) => run();
+        if (cache) {
+            this.cache = new ResponseCache({ namespace: fingerprint(apiSecret), ...(cache === true ? {} : cache) }, this.axiosApi.logger);
+        }
+    }
+
+    /**
+     * Maps a caught error to a {@link WetrocloudError} and either throws it
+     * (`throwOnError` mode) or wraps it in the legacy `{ message }` shape.
+     * Cancellations always throw: the caller asked for them.
+     */
+    private handleError(e: unknown): IErrorMessage {
+        const error = errorMessage(e);
+        if (this.throwOnError || error instanceof RequestAbortedError) throw error;
+        return { message: error.message, error };
+    }
+
+    /** Records the tokens a response reports (`tokens`, or `token` for inserts) in {@link Wetrocloud.usage}. */
+    private track<R>(res: R, record: Omit<IUsageRecord, "tokens">): R {
+        const { tokens, token } = (res || {}) as { tokens?: number, token?: number };
+        this.usage.record({ ...record, tokens: tokens ?? token ?? 0 });
+        return res;
+    }
+
+    /**
+     * Answers from {@link Wetrocloud.cache} when it holds this request, otherwise calls `send`.
+     * `send` tracks usage and checks the budget itself, so cache hits cost nothing.
+     * With a `schema`, only answers that match it are stored.
+     */
+    private withCache<R extends { response?: unknown }>(endpoint: string, body: Record<string, unknown>, collection_id: string | undefined,
+        control: CacheControl | undefined, send: () => Promise<R>, schema?: SchemaInput): Promise<R> {
+        if (!this.cache || control === false) return send();
+        return this.cache.wrap(endpoint, body, collection_id, send, typeof control === "object" ? control.ttl : undefined,
+            (res) => !schema || matchesSchema(schema, res?.response));
+    }
+
+    /**
+     * Serializes the `json_schema` sent to the API: the example object when given,
+     * otherwise one derived from the runtime `schema`.
+     */
+    private serializeSchema(json_schema: unknown, schema?: SchemaInput): string | undefined {
+        if (json_schema) return JSON.stringify(json_schema);
+        if (schema) return JSON.stringify(toExampleSchema(toJsonSchema(schema)));
+        return undefined;
+    }
+
+    /**
+     * Validates the answer of `send` against `schema`. When it does not match and `repair`
+     * allows another attempt (`true` = once, or a number of attempts), calls `send` again
+     * with `feedback` listing the validation errors. `tokens` adds up every attempt.
+     */
+    private async withRepair<T, R extends { response?: unknown, tokens?: number }>(schema: SchemaInput<T> | undefined,
+        repair: boolean | number, send: (feedback?: string) => Promise<R>): Promise<R & { response: T }> {
+        let repairsLeft = repair === true ? 1 : Number(repair) || 0;
+        let feedback: string | undefined;
+        let tokens = 0;
+
+        while (true) {
+            const res = await send(feedback);
+            if (!schema) return { ...res, response: res?.response as T };
+
+            tokens += res?.tokens || 0;
+            try {
+                return { ...res, tokens, response: validateResponse(schema, res?.response) };
+            } catch (e) {
+                if (!(e instanceof SchemaValidationError) || repairsLeft-- <= 0) throw e;
+                feedback = `Your previous answer did not match the required JSON schema (${e.issues.map((i) => `${i.path || "(root)"}: ${i.message}`).join("; ")}). Answer again with JSON that matches the schema exactly.`;
+            }
+        }
+    }
+
+    /** The models a call tries, in order: `model`, then `models`, or the client's default. */
+    private resolveModels(model: ModelId | undefined, models: ModelId[] = []): string[] {
+        const candidates = [...new Set([model, ...models].filter((id): id is string => id !== undefined))];
+        if (!candidates.length && this.defaultModel) candidates.push(this.defaultModel);
+        return candidates;
+    }
+
+    /** Checks a model with {@link validateModel}, warning once about each unknown one. */
+    private checkModel(id: string, requires: (keyof IModelCapabilities)[]) {
+        if (validateModel(id, { requires, strict: this.strictModels }) || this.warnedModels.has(id)) return;
+        this.warnedModels.add(id);
+        this.axiosApi.logger.warn(`${unknownModelMessage(id)}; sending it anyway`);
+    }
+
+    /**
+     * Calls `send` with each model until one succeeds. Each model is checked with
+     * {@link validateModel} just before it is tried; an invalid one is skipped with a
+     * warning while others are left. Errors another model cannot fix (cancellation,
+     * authentication, the token budget) are thrown right away.
+     * Without models, `send` is called once and the API picks its default. With several,
+     * the attempts share one `operation` span.
+     */
+    private async withModelFallback<R>(operation: string, models: string[], requires: (keyof IModelCapabilities)[],
+        send: (model?: string) => Promise<R>): Promise<R> {
+        if (models.length < 2) {
+            if (models.length) this.checkModel(models[0], requires);
+            return send(models[0]);
+        }
+        return this.traceOperation(operation, async () => {
+            for (let i = 0; ; i++) {
+                try {
+                    this.checkModel(models[i], requires);
+                } catch (e) {
+                    if (i === models.length - 1) throw e;
+                    this.axiosApi.logger.warn(`${(e as Error).message}; trying "${models[i + 1]}"`);
+                    continue;
+                }
+                try {
+                    return await send(models[i]);
+                } catch (e) {
+                    const error = errorMessage(e);
+                    const final = error instanceof RequestAbortedError || error instanceof AuthenticationError || error instanceof BudgetExceededError;
+                    if (final || i === models.length - 1) throw error;
+                    this.axiosApi.logger.warn(`Model "${models[i]}" failed, trying "${models[i + 1]}"`, { error });
+                }
+            }
+        });
+    }
+
+    /**
+     * Adds a middleware that runs around every request, after the ones passed in the constructor.
+     *
+     * @param {IMiddleware} middleware - Any of `onRequest`, `onResponse`, `onError` and `onStreamChunk`.
+     * @returns {this} The client, for chaining.
+     *
+     * @example
+     * sdk.use({
+     *     onRequest: (ctx) => { ctx.headers["X-Correlation-Id"] = ctx.id; },
+     *     onError: (ctx, error) => metrics.increment("wetrocloud.errors", { status: error.status })
+     * });
+     */
+    public use(middleware: IMiddleware): this {
+        this.axiosApi.use(middleware);
+        return this;
+    }
+
+    /**
+     * Aborts every call that is still waiting for its response.
+     * Streams that already started are stopped through their own `signal`.
+     */
+    public cancelRequests() {
+        this.axiosApi.cancelRequests();
     }
 
     /**
@@ -32,18 +291,22 @@ class Wetrocloud {
      * @see WetroCloud Docs: https://docs.wetrocloud.com/endpoint-explanations/create
      * 
      */
-    public async createCollection({ collection_id }: { collection_id?: string }): Promise<ICreateCollection | IErrorMessage> {
+    public async createCollection({ collection_id, timeout, signal, priority }: { collection_id?: string } & IRequestOptions): Promise<ICreateCollection | IErrorMessage> {
         try {
             const formData = new FormData()
             formData.append("collection_id", collection_id || generateRandomString(15))
             const res = await this.axiosApi.request({
                 url: "/collection/create/",
+                operation: "createCollection",
                 method: RequestMethods.POST,
-                data: formData
+                data: formData,
+                timeout,
+                signal,
+                priority
             })
             return res as ICreateCollection;
         } catch (e) {
-            return { message: errorMessage(e) }
+            return this.handleError(e)
         }
     }
 
@@ -59,24 +322,87 @@ class Wetrocloud {
      * @see WetroCloud Docs: https://docs.wetrocloud.com/endpoint-explanations/list-collections
      * 
      */
-    public async listCollections(): Promise<IListCollection[] | IErrorMessage> {
+    public async listCollections({ timeout, signal, priority }: IRequestOptions = {}): Promise<IListCollection[] | IErrorMessage> {
         try {
             const res = await this.axiosApi.request({
                 url: "/collection/all/",
-                method: RequestMethods.GET
+                operation: "listCollections",
+                method: RequestMethods.GET,
+                timeout,
+                signal,
+                priority
             })
             return res?.results as IListCollection[];
         } catch (e) {
-            return { message: errorMessage(e) }
+            return this.handleError(e)
         }
     }
 
+    /**
+     * Returns a handle on a collection, so its id does not have to be repeated on every call.
+     * No request is made; use {@link Wetrocloud.ensureCollection} to create it when missing.
+     *
+     * @param {string} collection_id - The unique identifier of the collection.
+     *
+     * @returns {Collection} A handle exposing `insert`, `query`, `chat`, `deleteResource` and `delete`.
+     *
+     * @example
+     * const docs = sdk.collection("docs");
+     * await docs.insert({ resource: "Sample text", type: ResourceType.TEXT });
+     * const answer = await docs.query({ request_query: "What does the sample say?", stream: false });
+     */
+    public collection(collection_id: string): Collection {
+        return new Collection(this, collection_id);
+    }
+
+    /**
+     * Returns a handle on a collection, creating the collection first when it does not exist yet.
+     *
+     * A create that fails because the collection was created concurrently still resolves
+     * to the collection.
+     *
+     * @param {string} collection_id - The unique identifier of the collection.
+     *
+     * @returns {Promise<Collection | IErrorMessage>} The collection handle, or an error message
+     * if the collection could neither be found nor created.
+     *
+     * @example
+     * const docs = await sdk.ensureCollection("docs");
+     */
+    public async ensureCollection(collection_id: string, { timeout, signal, priority }: IRequestOptions = {}): Promise<Collection | IErrorMessage> {
+        const exists = async () => {
+            const collections = await this.listCollections({ timeout, signal, priority });
+            if ((collections as IErrorMessage).error) throw (collections as IErrorMessage).error;
+            return (collections as IListCollection[] || []).some((c) => c.collection_id === collection_id);
+        };
+
+        return this.traceOperation("ensureCollection", async () => {
+            try {
+                if (await exists()) return this.collection(collection_id);
+
+                // with `throwOnError` a failed create rejects; it is checked the same way as a returned error
+                const created: ICreateCollection | IErrorMessage = await this.createCollection({ collection_id, timeout, signal, priority })
+                    .catch((e) => ({ message: e?.message, error: errorMessage(e) }));
+                if ((created as ICreateCollection).success || await exists()) return this.collection(collection_id);
+
+                throw (created as IErrorMessage).error || new WetrocloudError("Collection was not created", { data: created });
+            } catch (e) {
+                return this.handleError(e)
+            }
+        });
+    }
+
     /**
      * Inserts a resource into an existing collection in WetroCloud.
      *
      * @param {string} collection_id - The unique identifier of the collection where the resource will be inserted.
-     * @param {string} resource - The resource data to be added to the collection.
+     * @param {string | UploadableResource} resource - The resource data to be added to the collection.
+     * For `type: "file"` this can also be a local file path, a `Buffer`, a `Blob` or a `Readable`,
+     * which is sent as a multipart upload.
      * @param {ResourceType} type - The type of the resource (web, file, text, json, youtube).
+     * @param {string} [filename] - Name of the uploaded file; inferred from the path or Blob when omitted.
+     * @param {string} [mime_type] - MIME type of the uploaded file; detected from the file extension when omitted.
+     * @param {(progress: IUploadProgress) => void} [onUploadProgress] - Called as the upload progresses.
      *
      * @returns {Promise<IInsertResourceCollection | IErrorMessage>} A promise that resolves to an object 
      * containing the success status and a token for tracking, or an error message if the request fails.
@@ -87,132 +413,299 @@ class Wetrocloud {
      *     resource: "Sample text",
      *     type: "text"
      * });
+     *
+     * @example
+     * const response = await sdk.insertResource({
+     *     collection_id: "12345",
+     *     resource: "./docs/handbook.pdf",
+     *     type: ResourceType.FILE,
+     *     onUploadProgress: ({ progress }) => console.log(progress)
+     * });
      * 
      * @see WetroCloud Docs: https://docs.wetrocloud.com/endpoint-explanations/insert
      */
     public async insertResource({
-        collection_id, resource, type
+        collection_id, resource, type, filename, mime_type, onUploadProgress, timeout, signal, tags, priority
     }: {
-        collection_id: string, resource: string,
-        type: ResourceType
-    }): Promise<IInsertResourceCollection | IErrorMessage> {
+        collection_id: string, resource: string | UploadableResource,
+        type: ResourceType,
+        filename?: string,
+        mime_type?: string,
+        onUploadProgress?: (progress: IUploadProgress) => void
+    } & IRequestOptions): Promise<IInsertResourceCollection | IErrorMessage> {
         try {
+            this.usage.assertWithinBudget();
+            const usage = { method: "insertResource", collection_id, tags };
+            if (isLocalFilePath(resource, type) || isUploadable(resource)) {
+                const upload = await toUploadBlob(resource, { filename, mime_type, maxBytes: this.maxUploadBytes });
+                const formData = new FormData()
+                formData.append("collection_id", collection_id)
+                formData.append("type", type)
+                formData.append("resource", upload.blob, upload.filename)
+
+                const res = await this.axiosApi.request({
+                    url: "/resource/insert/",
+                    operation: "insertResource",
+                    method: RequestMethods.POST,
+                    data: formData,
+                    headers: { 'Content-Type': 'multipart/form-data' },
+                    timeout,
+                    signal,
+                    priority,
+                    onUploadProgress
+                })
+                await this.cache?.invalidate(collection_id);
+                return this.track(res as IInsertResourceCollection, usage)
+            }
+
             const res = await this.axiosApi.request({
                 url: "/resource/insert/",
+                operation: "insertResource",
                 method: RequestMethods.POST,
                 data: {
                     collection_id,
                     resource,
                     type
-                }
+                },
+                timeout,
+                signal,
+                priority
             })
-            return res as IInsertResourceCollection
+            await this.cache?.invalidate(collection_id);
+            return this.track(res as IInsertResourceCollection, usage)
         } catch (e) {
-            return { message: errorMessage(e) }
+            return this.handleError(e)
         }
     }
 
+    /**
+     * Inserts many resources into a collection with bounded concurrency.
+     *
+     * Failures never reject the returned promise: every item gets an entry in the
+     * report, in input order, either with its `resource_id` and tokens or with the
+     * typed error that made it fail.
+     *
+     * @template M - The type of the per-item `metadata` echoed back in the report.
+     *
+     * @param {string} collection_id - The unique identifier of the collection to insert into.
+     * @param {IBulkInsertItem<M>[]} resources - The resources to insert (same fields as `insertResource`).
+     * @param {number} [concurrency=4] - Maximum number of inserts in flight.
+     * @param {boolean} [stopOnError=false] - Stop starting new inserts after the first failure;
+     * items never attempted are reported as `skipped`.
+     * @param {(progress: IBulkInsertProgress<M>) => void} [onProgress] - Called after each item completes.
+     *
+     * @returns {Promise<IBulkInsertReport<M>>} The per-item results, counts and the total tokens used.
+     *
+     * @example
+     * const report = await sdk.insertResources({
+     *     collection_id: "12345",
+     *     resources: urls.map((url) => ({ resource: url, type: ResourceType.WEB, metadata: { url } })),
+     *     concurrency: 8,
+     *     onProgress: ({ completed, total }) => console.log(`${completed}/${total}`)
+     * });
+     */
+    public async insertResources<M = unknown>({
+        collection_id,
+        resources,
+        concurrency = 4,
+        stopOnError = false,
+        onProgress,
+        timeout,
+        signal,
+        tags,
+        priority
+    }: {
+        collection_id: string,
+        resources: IBulkInsertItem<M>[],
+        concurrency?: number,
+        stopOnError?: boolean,
+        onProgress?: (progress: IBulkInsertProgress<M>) => void
+    } & IRequestOptions): Promise<IBulkInsertReport<M>> {
+        return this.traceOperation("insertResources", async () => {
+            const results: IBulkInsertResult<M>[] = resources.map(({ metadata }, index) => ({ index, metadata, status: "skipped" }));
+            let completed = 0, succeeded = 0, failed = 0;
+
+            await runPool(resources, concurrency, async ({ metadata, ...item }, index) => {
+                let result: IBulkInsertResult<M>;
+                try {
+                    const res = await this.insertResource({ ...item, collection_id, timeout, signal, tags, priority });
+                    if ((res as IErrorMessage).error) throw (res as IErrorMessage).error;
+                    const inserted = res as IInsertResourceCollection;
+                    if (!inserted?.success) throw new WetrocloudError("Resource was not inserted", { data: res });
+                    result = { index, metadata, status: "fulfilled", resource_id: inserted.resource_id, tokens: inserted.token || 0 };
+                    succeeded++;
+                } catch (e) {
+                    result = { index, metadata, status: "rejected", error: errorMessage(e) };
+                    failed++;
+                }
+                results[index] = result;
+                completed++;
+                onProgress?.({ completed, total: resources.length, succeeded, failed, result });
+            }, () => !!signal?.aborted || (stopOnError && failed > 0));
+
+            return {
+                results,
+                succeeded,
+                failed,
+                skipped: resources.length - completed,
+                tokens: results.reduce((sum, r) => sum + (r.status === "fulfilled" ? r.tokens : 0), 0)
+            };
+        });
+    }
+
+    /**
+     * Makes a collection mirror a local directory (Node only).
+     *
+     * Files are hashed and compared with a manifest of path, content hash and `resource_id`
+     * from the previous sync: new files are inserted, changed ones deleted and inserted again,
+     * and files gone from `dir` deleted. The manifest is saved after every completed action,
+     * so re-running an interrupted sync resumes it. Failed files are reported and retried next time.
+     *
+     * @param {string} collection_id - The collection to keep in sync.
+     * @param {string} dir - The directory to mirror.
+     * @param {string[]} [include] - Globs of files to sync, e.g. `["**\/*.md"]`. Defaults to every file.
+     * @param {string[]} [exclude] - Globs of files to leave out.
+     * @param {string} [manifest] - Manifest path, defaults to `.wetrocloud-sync.json` in `dir`.
+     * @param {boolean} [dryRun=false] - Only compute the plan (see {@link formatSyncPlan}).
+     * @param {number} [concurrency=4] - Files processed at once.
+     * @param {(progress: ISyncProgress) => void} [onProgress] - Called after each action.
+     *
+     * @returns {Promise<ISyncReport | IErrorMessage>} The plan, the failed files and the tokens used.
+     *
+     * @example
+     * const { plan } = await sdk.syncDirectory({ collection_id: "docs", dir: "./docs", include: ["*.md"], dryRun: true });
+     * console.log(formatSyncPlan(plan));
+     */
+    public async syncDirectory(params: ISyncDirectoryParams): Promise<ISyncReport | IErrorMessage> {
+        return this.traceOperation("syncDirectory", async () => {
+            try {
+                return await syncDirectory(this, params);
+            } catch (e) {
+                return this.handleError(e)
+            }
+        });
+    }
+
     /**
  * Queries resources from a specified collection in WetroCloud.
  *
- * @template T - The expected structure of the queried resources.
+ * The type of `response` follows from the call: the type described by `json_schema`
+ * (see {@link InferJsonSchema}), the output type of a Zod `schema`, or `string`.
  *
  * @param {string} collection_id - The unique identifier of the collection to query from.
  * @param {string} request_query - The search query used to retrieve matching resources.
- * @param {T | T[]} [json_schema] - An optional JSON schema to structure the response data.
+ * @param {JsonSchemaExample} [json_schema] - An optional JSON schema to structure the response data,
+ *                          e.g. `{ title: "string", count: "number", tags: ["string"] }`.
+ * @param {SchemaInput<T>} [schema] - Optional Zod schema or JSON Schema. It is converted to the `json_schema`
+ *                          the API expects (unless `json_schema` is also given) and the response is validated
+ *                          against it, failing with a `SchemaValidationError` that lists the failing paths.
+ *                          Implies `stream: false`.
+ * @param {boolean | number} [repair=false] - When the response does not match `schema`, ask again with the
+ *                          validation errors added to `json_schema_rules` (`true` = once, or a number of attempts).
  * @param {string} [json_schema_rules] - Optional rules to refine the JSON schema filtering.
- * @param {string} [model] - (Optional) The AI model to use for the query. 
- *                          Defaults to WetroCloud's default model if not provided.
- *                          Check supported models here: https://docs.wetrocloud.com/endpoint-explanations/models
+ * @param {ModelId} [model] - (Optional) The AI model to use for the query, see {@link MODEL_CATALOG}.
+ *                          Defaults to the client's `model`, or WetroCloud's default model if neither is given.
+ * @param {ModelId[]} [models] - (Optional) Models tried in order, each after the previous one failed.
  * @param {boolean} [stream=true] - Optional. Determines whether the response should be streamed. Defaults to `true`.
  *
- * @returns {Promise<IErrorMessage | IQueryResourceCollectionDynamic<T>>} 
+ * @returns {Promise<IErrorMessage | IStructuredResponse<T> | IResponseStream<T>>}
  * A promise that resolves to the query result containing the response data, token usage,
- * and success status, or an error message if the request fails.
+ * and success status, or an error message if the request fails. Streamed queries resolve
+ * to an async iterator of chunks.
  *
  * @example
- * const response = await sdk.queryResources({
+ * const response = await sdk.queryResource({
  *     collection_id: "12345",
  *     request_query: "search query",
  *     model:"gpt-4.5-preview",
- *     json_schema: { topic: "", description: "" }
+ *     json_schema: { topic: "string", score: "number" },
+ *     stream: false
+ * });
+ * // response.response: { topic: string, score: number }
+ *
+ * @example
+ * const response = await sdk.queryResource({
+ *     collection_id: "12345",
+ *     request_query: "List the deployment steps",
+ *     schema: z.array(z.object({ step: z.string(), description: z.string() })),
+ *     repair: true
  * });
  * 
  * @see WetroCloud Docs: https://docs.wetrocloud.com/endpoint-explanations/query
  */
-    public async queryResource<T>(
-        {
-            collection_id,
-            request_query,
-            json_schema,
-            json_schema_rules,
-            model,
-            stream = true
-        }:
-            {
-                collection_id: string,
-                request_query: string,
-                model?: string,
-                json_schema?: T | T[],
-                json_schema_rules?: string,
-                stream?: boolean
-            }): Promise<IErrorMessage | IQueryResourceCollectionDynamic<T> | unknown> {
+    public async queryResource<T>(params: IQueryResourceParams<T> & { schema: SchemaInput<T>, stream?: false }):
+        Promise<IErrorMessage | IStructuredResponse<T>>;
+    public async queryResource<const S extends JsonSchemaExample>(params: IQueryResourceParams & { json_schema: S, stream: false }):
+        Promise<IErrorMessage | IStructuredResponse<InferJsonSchema<S>>>;
+    public async queryResource<const S extends JsonSchemaExample>(params: IQueryResourceParams & { json_schema: S, stream?: true }):
+        Promise<IErrorMessage | IResponseStream<InferJsonSchema<S>>>;
+    public async queryResource(params: IQueryResourceParams & { json_schema?: undefined, stream: false }):
+        Promise<IErrorMessage | IStructuredResponse<string>>;
+    public async queryResource(params: IQueryResourceParams & { json_schema?: undefined, stream?: true }):
+        Promise<IErrorMessage | IResponseStream<string>>;
+    public async queryResource<T = unknown>(params: IQueryResourceParams<T>):
+        Promise<IErrorMessage | IStructuredResponse<T> | IResponseStream<T>>;
+    public async queryResource<T = unknown>({
+        collection_id,
+        request_query,
+        json_schema,
+        schema,
+        repair = false,
+        json_schema_rules,
+        model,
+        models,
+        stream = !schema,
+        cache,
+        timeout,
+        signal,
+        tags,
+        priority
+    }: IQueryResourceParams<T>): Promise<IErrorMessage | IStructuredResponse<T> | IResponseStream<T>> {
         try {
-            type json_schema_type = typeof json_schema;
-            const requestData: Record<string, any> = {
-                collection_id,
-                request_query,
-                ...(json_schema ? { json_schema: JSON.stringify(json_schema) } : {}),
-                ...(json_schema_rules ? { json_schema_rules } : {}),
-                ...(model ? { model } : {}),
-                // stream
-            };
-            const res = await this.axiosApi.request({
-                url: "/collection/query/",
-                method: RequestMethods.POST,
-                data: requestData,
-                ...(stream ? { responseType: "stream" } : {})
-            })
+            if (schema && stream) {
+                throw new ValidationError("Responses can only be validated against `schema` with stream: false");
+            }
+            const serializedSchema = this.serializeSchema(json_schema, schema);
+            const requires: (keyof IModelCapabilities)[] = [...(stream ? ["streaming" as const] : []), ...(serializedSchema ? ["json" as const] : [])];
 
-            const resultStream = res as Readable;
+            return await this.withModelFallback("queryResource", this.resolveModels(model, models), requires, async (model) => {
+                const usage = { method: "queryResource", collection_id, model, tags };
+                const request = (rules?: string) => ({
+                    url: "/collection/query/",
+                    operation: "queryResource",
+                    method: RequestMethods.POST,
+                    idempotent: true,
+                    data: {
+                        collection_id,
+                        request_query,
+                        ...(serializedSchema ? { json_schema: serializedSchema } : {}),
+                        ...(rules ? { json_schema_rules: rules } : {}),
+                        ...(model ? { model } : {}),
+                        ...(stream ? { stream: true } : {})
+                    } as Record<string, any>,
+                    timeout,
+                    signal,
+                    priority
+                });
 
-            if (stream) {
-                return (async function* () {
-                    let buffer = "";
-                    for await (const chunk of resultStream) {
-                        buffer += chunk.toString();
-                        let parts = buffer.split("\n");
-
-                        // Process complete JSON lines
-                        while (parts.length > 1) {
-                            const jsonPart = parts.shift();
-                            if (jsonPart?.trim()) {
-                                try {
-                                    yield JSON.parse(jsonPart) as T;
-                                } catch (e) {
-                                    console.error("Error parsing JSON chunk:", jsonPart, e);
-                                }
-                            }
-                        }
-
-                        // Keep the last part (it might be incomplete)
-                        buffer = parts.join("\n");
-                    }
-
-                    // Process any remaining buffered data
-                    if (buffer.trim()) {
-                        try {
-                            yield JSON.parse(buffer) as T;
-                        } catch (e) {
-                            console.error("Error parsing final JSON chunk:", buffer, e);
-                        }
-                    }
-                })();
-            }
+                if (stream) {
+                    this.usage.assertWithinBudget();
+                    return await this.axiosApi.requestStream<T>(request(json_schema_rules), {
+                        throwOnParseError: this.throwOnError,
+                        onDone: (tokens) => this.usage.record({ ...usage, tokens })
+                    });
+                }
 
-            return { ...(res || {}), response: res?.response as json_schema_type };
+                return await this.withRepair(schema, repair, (feedback) => {
+                    const config = request([json_schema_rules, feedback].filter(Boolean).join("\n"));
+                    return this.withCache(config.url, config.data, collection_id, cache, async () => {
+                        this.usage.assertWithinBudget();
+                        return this.track(await this.axiosApi.request(config), usage);
+                    }, schema);
+                });
+            });
         } catch (e) {
-            return { message: errorMessage(e) }
+            return this.handleError(e)
         }
     }
 
@@ -228,10 +721,12 @@ class Wetrocloud {
      * @param {string} message - The user's message or query.
      * @param {{ role: "user" | "system", content: string }[]} chat_history - The conversation history
      * to maintain context during the chat.
+     * @param {boolean} [stream=false] - Stream the answer as it is generated.
      *
-     * @returns {Promise<IErrorMessage | IQueryResourceCollectionDynamic<T>>} 
+     * @returns {Promise<IErrorMessage | IQueryResourceCollectionDynamic<T> | IResponseStream<T>>} 
      * A promise that resolves to the collection's response, token usage, and success status,
-     * or an error message if the request fails.
+     * or an error message if the request fails. With `stream: true` it resolves to an async
+     * iterator of chunks ending with one that carries `tokens` and `success`.
      *
      * @example
      * const response = await sdk.chatWithCollection({
@@ -243,35 +738,82 @@ class Wetrocloud {
      *     ]
      * });
      *
+     * @example
+     * const stream = await sdk.chat({ collection_id: "12345", message: "Hi", chat_history: [], stream: true });
+     * for await (const chunk of stream) process.stdout.write(chunk.response);
+     *
      * @see WetroCloud Docs: https://docs.wetrocloud.com/endpoint-explanations/chat
      */
+    public async chat<T = string>(params: IChatParams & { stream: true }): Promise<IErrorMessage | IResponseStream<T>>;
+    public async chat<T = string>(params: IChatParams & { stream?: false }): Promise<IErrorMessage | IQueryResourceCollectionDynamic<T>>;
+    public async chat<T = string>(params: IChatParams): Promise<IErrorMessage | IQueryResourceCollectionDynamic<T> | IResponseStream<T>>;
     public async chat<T = string>({
         collection_id,
         message,
-        chat_history
-    }: {
-        collection_id: string,
-        message: string,
-        chat_history: { role: "user" | "system", content: string }[]
-
-    }): Promise<IErrorMessage | IQueryResourceCollectionDynamic<T>> {
+        chat_history,
+        stream = false,
+        timeout,
+        signal,
+        tags,
+        priority
+    }: IChatParams): Promise<IErrorMessage | IQueryResourceCollectionDynamic<T> | IResponseStream<T>> {
         try {
+            this.usage.assertWithinBudget();
+            const usage = { method: "chat", collection_id, tags };
             const requestData: Record<string, any> = {
                 collection_id,
                 message,
-                chat_history
+                chat_history,
+                ...(stream ? { stream: true } : {})
             };
-            const res = await this.axiosApi.request({
+            const config = {
                 url: "/collection/query/",
+                operation: "chat",
                 method: RequestMethods.POST,
-                data: requestData
-            })
-            return res;
+                idempotent: true,
+                data: requestData,
+                timeout,
+                signal,
+                priority
+            };
+
+            if (stream) {
+                return await this.axiosApi.requestStream<T>(config, {
+                    throwOnParseError: this.throwOnError,
+                    onDone: (tokens) => this.usage.record({ ...usage, tokens })
+                });
+            }
+            const res = await this.axiosApi.request(config)
+            return this.track(res, usage);
         } catch (e) {
-            return { message: errorMessage(e) }
+            return this.handleError(e)
         }
     }
 
+    /**
+     * Starts a stateful conversation with a collection.
+     *
+     * The returned {@link ChatSession} keeps the `chat_history` for you, truncates
+     * (or summarizes) old turns, pins an optional system prompt, tracks tokens and
+     * can be saved with `toJSON()` and restored with `ChatSession.fromJSON()`.
+     *
+     * @param {string} collection_id - The unique identifier of the collection to chat with.
+     * @param {string} [systemPrompt] - A system message pinned at the start of the history.
+     * @param {number} [maxTurns] - Maximum number of user/reply turns to keep.
+     * @param {number} [maxHistoryTokens] - Approximate token budget for the history.
+     * @param {Function} [summarize] - Turns dropped turns into a summary kept in the history.
+     *
+     * @returns {ChatSession} A new chat session.
+     *
+     * @example
+     * const session = sdk.chatSession({ collection_id: "12345", systemPrompt: "Answer briefly.", maxTurns: 10 });
+     * const first = await session.send("What is Web3?");
+     * const stream = await session.send("And blockchain?", { stream: true });
+     */
+    public chatSession(options: IChatSessionOptions): ChatSession {
+        return new ChatSession(this, options);
+    }
+
     /**
      * Deletes a specific resource from a collection in WetroCloud.
      *
@@ -292,8 +834,8 @@ class Wetrocloud {
      * @see WetroCloud Docs: https://docs.wetrocloud.com/endpoint-explanations/remove-resource
      */
 
-    public async deleteResource({ collection_id, resource_id }:
-        { collection_id: string, resource_id: string }): Promise<IGenericResponse | IErrorMessage> {
+    public async deleteResource({ collection_id, resource_id, timeout, signal, priority }:
+        { collection_id: string, resource_id: string } & IRequestOptions): Promise<IGenericResponse | IErrorMessage> {
         try {
             const formData = new FormData()
 
@@ -302,13 +844,18 @@ class Wetrocloud {
 
             const res = await this.axiosApi.request({
                 url: "/resource/remove/",
+                operation: "deleteResource",
                 method: RequestMethods.DELETE,
-                data: formData
+                data: formData,
+                timeout,
+                signal,
+                priority
             })
 
+            await this.cache?.invalidate(collection_id);
             return res as IGenericResponse;
         } catch (e) {
-            return { message: errorMessage(e) }
+            return this.handleError(e)
         }
     }
 
@@ -327,7 +874,7 @@ class Wetrocloud {
     *
     * @see WetroCloud Docs: https://docs.wetrocloud.com/endpoint-explanations/delete
     */
-    public async deleteCollection({ collection_id }: { collection_id: string }):
+    public async deleteCollection({ collection_id, timeout, signal, priority }: { collection_id: string } & IRequestOptions):
         Promise<IGenericResponse | IErrorMessage> {
         try {
             const requestData = {
@@ -336,14 +883,19 @@ class Wetrocloud {
 
             const res = await this.axiosApi.request({
                 url: "/collection/delete/",
+                operation: "deleteCollection",
                 method: RequestMethods.DELETE,
-                data: requestData
+                data: requestData,
+                timeout,
+                signal,
+                priority
             })
+            await this.cache?.invalidate(collection_id);
 
             return res;
 
         } catch (e) {
-            return { message: errorMessage(e) }
+            return this.handleError(e)
         }
     }
 
@@ -353,11 +905,15 @@ class Wetrocloud {
      * This allows you to organize a resource into specific categories
      * based on a provided JSON schema.
      *
-     * @template T - The expected structure of the resource.
+     * `response` is typed from `json_schema` (see {@link InferJsonSchema}) or from a Zod `schema`.
      *
      * @param {string} resource - The the resource to be categorized.
      * @param {ResourceType} type - The type of the resource (web, file, text, json, youtube). - The type of resource being categorized (e.g., "text", "image", etc.).
-     * @param {T | T[]} json_schema - The JSON schema that defines the structure of the resource.
+     * @param {JsonSchemaExample} json_schema - The JSON schema that defines the structure of the resource.
+     * @param {SchemaInput<T>} [schema] - Zod schema or JSON Schema used instead of (or on top of) `json_schema`;
+     * the response is validated against it. One of `json_schema` and `schema` is required.
+     * @param {boolean | number} [repair=false] - When the response does not match `schema`, ask again with the
+     * validation errors added to `prompt` (`true` = once, or a number of attempts).
      * @param {string[]} categories - An array of category names to associate the resource with.
      * @param {string} prompt - An overall command of your request
      *
@@ -372,44 +928,115 @@ class Wetrocloud {
      *     categories: ["football", "Machine Learning","wrestling"], 
      *     prompt: "Where does this fall under?", 
      * });
+     * // response.response: { label: string }
      *
      * @see WetroCloud Docs: https://docs.wetrocloud.com/endpoint-explanations/category
      */
+    public async categorize<T>(params: ICategorizeParams<T> & { schema: SchemaInput<T> }): Promise<ICatergorizeResource<T> | IErrorMessage>;
+    public async categorize<const S extends JsonSchemaExample>(params: ICategorizeParams & { json_schema: S }):
+        Promise<ICatergorizeResource<InferJsonSchema<S>> | IErrorMessage>;
     public async categorize<T>({
         resource,
         type,
         json_schema,
+        schema,
+        repair = false,
         categories,
-        prompt
-    }: {
-        resource: string,
-        type: ResourceType,
-        json_schema: T | T[]
-        categories: string[],
-        prompt: string
-
-    }): Promise<ICatergorizeResource<T> | IErrorMessage> {
+        prompt,
+        cache,
+        timeout,
+        signal,
+        tags,
+        priority
+    }: ICategorizeParams<T>): Promise<ICatergorizeResource<T> | IErrorMessage> {
         try {
-            const requestData: Record<string, any> = {
-                resource,
-                type,
-                json_schema: JSON.stringify(json_schema),
-                categories,
-                prompt
-            };
+            const serializedSchema = this.serializeSchema(json_schema, schema);
+            if (!serializedSchema) throw new ValidationError("Pass `json_schema` or `schema`");
 
-            const res = await this.axiosApi.request({
-                url: "/categorize/",
-                method: RequestMethods.POST,
-                data: requestData
-            })
+            return await this.withRepair(schema, repair, (feedback) => {
+                const requestData: Record<string, any> = {
+                    resource,
+                    type,
+                    json_schema: serializedSchema,
+                    categories,
+                    prompt: [prompt, feedback].filter(Boolean).join("\n")
+                };
 
-            return res as ICatergorizeResource<T>;
+                return this.withCache("/categorize/", requestData, undefined, cache, async () => {
+                    this.usage.assertWithinBudget();
+                    return this.track(await this.axiosApi.request({
+                        url: "/categorize/",
+                        operation: "categorize",
+                        method: RequestMethods.POST,
+                        idempotent: true,
+                        data: requestData,
+                        timeout,
+                        signal,
+                        priority
+                    }), { method: "categorize", tags });
+                }, schema);
+            });
         } catch (e) {
-            return { message: errorMessage(e) }
+            return this.handleError(e)
         }
     }
 
+    /**
+     * Categorizes many resources against the same `categories`, `prompt` and schema
+     * with bounded concurrency, and aggregates the answers.
+     *
+     * Failures never reject the returned promise: every item gets an entry in the
+     * report, either with its label, answer and tokens or with the typed error that made it fail.
+     *
+     * @template T - The type of each answer, when a `schema` is given.
+     * @template M - The type of the per-item `metadata` echoed back in the report.
+     *
+     * @param {ICategorizeItem<M>[]} resources - The resources to categorize.
+     * @param {string[]} categories - The categories every resource is sorted into.
+     * @param {string} prompt - An overall command of your request.
+     * @param {JsonSchemaExample} [json_schema] - Shape of each answer, `{ label: "string" }` by default.
+     * @param {string} [labelKey] - Field of the answer holding the category.
+     * @param {number} [concurrency=4] - Maximum number of calls in flight.
+     * @param {boolean} [stopOnError=false] - Stop starting new calls after the first failure;
+     * items never attempted are reported as `skipped`.
+     * @param {(progress: ICategorizeProgress<T, M>) => void} [onProgress] - Called after each item completes.
+     *
+     * @returns {Promise<CategorizeReport<T, M>>} Counts per category, unassigned items,
+     * per-item results and tokens, exportable with `toCSV()` or `toJSON()`.
+     *
+     * @example
+     * const report = await sdk.categorizeResources({
+     *     resources: tickets.map((ticket) => ({ resource: ticket.body, type: ResourceType.TEXT, metadata: { id: ticket.id } })),
+     *     categories: ["billing", "bug", "feature request"],
+     *     prompt: "What is this support ticket about?"
+     * });
+     * console.log(report.counts, report.unassigned);
+     * await writeFile("tickets.csv", report.toCSV());
+     */
+    public async categorizeResources<T = unknown, M = unknown>(params: ICategorizeResourcesParams<T, M>): Promise<CategorizeReport<T, M>> {
+        return this.traceOperation("categorizeResources", async () => {
+            const results = categorizeResources(this, params);
+            let next = await results.next();
+            while (!next.done) next = await results.next();
+            return next.value;
+        });
+    }
+
+    /**
+     * Same as {@link categorizeResources}, but yields each result as soon as it
+     * completes (not in input order). The report is the generator's return value.
+     * Leaving the loop early stops starting new calls.
+     *
+     * @example
+     * for await (const result of sdk.streamCategorizeResources({ resources, categories, prompt })) {
+     *     if (result.status === "fulfilled") console.log(result.resource, "->", result.label);
+     * }
+     */
+    public streamCategorizeResources<T = unknown, M = unknown>(params: ICategorizeResourcesParams<T, M>):
+        AsyncGenerator<ICategorizeResult<T, M>, CategorizeReport<T, M>, undefined> {
+        return categorizeResources(this, params);
+    }
+
     /**
  * Generates text using WetroCloud's open-source language models.
  *
@@ -417,12 +1044,15 @@ class Wetrocloud {
  * Retrieval-Augmented Generation (RAG), supporting conversational interactions through a
  * message-based format.
  *
- * @param {string} model - The model to be used for text generation (e.g., "gpt-4.5-turbo").
- *                        Check all supported models here: https://docs.wetrocloud.com/endpoint-explanations/models
+ * @param {ModelId} [model] - The model to be used for text generation (e.g., "gpt-4o"), see {@link MODEL_CATALOG}.
+ *                        Required unless the client has a default `model` or `models` is given.
+ * @param {ModelId[]} [models] - Models tried in order, each after the previous one failed.
  * @param {Array<{ role: "user" | "system" | "assistant", content: string }>} messages - An array of messages representing the conversation history.
+ * @param {boolean} [stream=false] - Stream the answer as it is generated.
  *
- * @returns {Promise<IGenericResponse | IErrorMessage>}
+ * @returns {Promise<IGenericResponse | IErrorMessage | IResponseStream>}
  * A promise that resolves to the generated text response or an error message if the request fails.
+ * With `stream: true` it resolves to an async iterator of text chunks ending with one that carries `tokens`.
  *
  * @example
  * const response = await sdk.generateTextWithoutRag({
@@ -435,33 +1065,55 @@ class Wetrocloud {
  * @see WetroCloud Docs: https://docs.wetrocloud.com/endpoint-explanations/text-generation
  */
 
+    public async textGeneration(params: ITextGenerationParams & { stream: true }): Promise<IErrorMessage | IResponseStream>;
+    public async textGeneration(params: ITextGenerationParams & { stream?: false }): Promise<IGenericResponse | IErrorMessage>;
+    public async textGeneration(params: ITextGenerationParams): Promise<IGenericResponse | IErrorMessage | IResponseStream>;
     public async textGeneration({
         messages,
-        model
-    }: {
-        model: string,
-        messages: { role: "user" | "system" | "assistant", content: string }[]
-    }): Promise<IGenericResponse | IErrorMessage> {
+        model,
+        models,
+        stream = false,
+        timeout,
+        signal,
+        tags,
+        priority
+    }: ITextGenerationParams): Promise<IGenericResponse | IErrorMessage | IResponseStream> {
         try {
+            const candidates = this.resolveModels(model, models);
+            if (!candidates.length) throw new ValidationError("`model` is required unless the client has a default model");
 
-            const formData = new FormData()
-            formData.append("model", model)
-            formData.append("messages", JSON.stringify(messages))
-            const requestBody: Record<string, any> = {
-                model,
-                messages
-            }
-            // formData.append("messages", messages)
+            return await this.withModelFallback("textGeneration", candidates, stream ? ["streaming"] : [], async (model) => {
+                this.usage.assertWithinBudget();
+                const usage = { method: "textGeneration", model, tags };
+                const requestBody: Record<string, any> = {
+                    model,
+                    messages,
+                    ...(stream ? { stream: true } : {})
+                }
 
-            const res = await this.axiosApi.request({
-                url: "/text-generation/",
-                method: RequestMethods.POST,
-                data: requestBody
-            })
+                const config = {
+                    url: "/text-generation/",
+                    operation: "textGeneration",
+                    method: RequestMethods.POST,
+                    idempotent: true,
+                    data: requestBody,
+                    timeout,
+                    signal,
+                    priority
+                };
 
-            return res;
+                if (stream) {
+                    return await this.axiosApi.requestStream(config, {
+                        throwOnParseError: this.throwOnError,
+                        onDone: (tokens) => this.usage.record({ ...usage, tokens })
+                    });
+                }
+
+                const res = await this.axiosApi.request(config)
+                return this.track(res, usage);
+            });
         } catch (e) {
-            return { message: errorMessage(e) }
+            return this.handleError(e)
         }
     }
 
@@ -471,10 +1123,18 @@ class Wetrocloud {
      * This allows you to analyze an image and ask questions about its content. 
      * Supports both JSON and plain text response formats.
      *
-     * @param {string} image_url - The URL of the image to be analyzed.
+     * Images that are not public URLs (local paths, bytes, Blobs, data URIs) are checked to be
+     * PNG, JPEG, GIF or WebP, passed through `transformImage` and sent as base64 data URIs.
+     * With `json_schema` or `schema`, `response` is structured like in `queryResource`.
+     *
+     * @param {string} [image_url] - The URL of the image to be analyzed.
+     * @param {ImageInput} [image] - The image as a URL, data URI, local path (Node only), bytes or Blob.
      * @param {string} request_query - The query or prompt related to the image content.
+     * @param {JsonSchemaExample} [json_schema] - The shape of the answer.
+     * @param {SchemaInput<T>} [schema] - Zod schema or JSON Schema the answer is validated against.
+     * @param {ImageTransform} [transformImage] - Called with every local image before it is sent, e.g. to downscale it.
      *
-     * @returns {Promise<IGenericResponse | IErrorMessage>}
+     * @returns {Promise<IGenericResponse | IImageToText<T> | IErrorMessage>}
      * A promise that resolves to the generated text response or an error message if the request fails.
      *
      * @example
@@ -483,31 +1143,63 @@ class Wetrocloud {
      *     request_query: "What's happening in this image?"
      * });
      *
+     * const receipt = await sdk.imageToText({
+     *     image: "./scans/receipt.jpg",
+     *     request_query: "Read this receipt",
+     *     json_schema: { merchant: "string", total: 0 }
+     * });
+     * // receipt.response: { merchant: string, total: number }
+     *
      * @see WetroCloud Docs: https://docs.wetrocloud.com/endpoint-explanations/image-to-text
      */
-
-    public async imageToText({
+    public async imageToText<T>(params: IImageToTextParams<T> & { schema: SchemaInput<T> }): Promise<IImageToText<T> | IErrorMessage>;
+    public async imageToText<const S extends JsonSchemaExample>(params: IImageToTextParams & { json_schema: S }):
+        Promise<IImageToText<InferJsonSchema<S>> | IErrorMessage>;
+    public async imageToText(params: IImageToTextParams & { json_schema?: undefined, schema?: undefined }): Promise<IGenericResponse | IErrorMessage>;
+    public async imageToText<T>({
         image_url,
-        request_query
-    }: {
-        image_url: string,
-        request_query: string
-    }): Promise<IGenericResponse | IErrorMessage> {
+        image,
+        request_query,
+        json_schema,
+        json_schema_rules,
+        schema,
+        transformImage,
+        timeout,
+        signal,
+        tags,
+        priority
+    }: IImageToTextParams<T>): Promise<IGenericResponse | IImageToText<T> | IErrorMessage> {
         try {
+            const input = image_url ?? image;
+            if (input === undefined) throw new ValidationError("Pass `image_url` or `image`");
+            // the documented API reads a single `image_url` per call
+            if (image_url !== undefined && image !== undefined) throw new ValidationError("Pass either `image_url` or `image`, not both");
+
+            const url = await toImageUrl(input, { maxBytes: this.maxImageBytes, transform: transformImage });
+            const serializedSchema = this.serializeSchema(json_schema, schema);
+            this.usage.assertWithinBudget();
             const requestData: Record<string, any> = {
-                image_url,
-                request_query
+                image_url: url,
+                request_query,
+                ...(serializedSchema ? { json_schema: serializedSchema } : {}),
+                ...(json_schema_rules ? { json_schema_rules } : {})
             }
 
-            const res = await this.axiosApi.request({
+            const res = this.track(await this.axiosApi.request({
                 url: "/image-to-text/",
+                operation: "imageToText",
                 method: RequestMethods.POST,
-                data: requestData
-            })
+                idempotent: true,
+                data: requestData,
+                timeout,
+                signal,
+                priority
+            }), { method: "imageToText", tags });
 
+            if (schema) return { ...res, response: validateResponse(schema, res?.response) };
             return res;
         } catch (e) {
-            return { message: errorMessage(e) }
+            return this.handleError(e)
         }
     }
 
@@ -517,10 +1209,14 @@ class Wetrocloud {
  * This allows you to retrieve specific data from a web page in a structured JSON format 
  * based on your predefined JSON schema.
  *
- * @template T - The expected structure of the extracted data.
+ * `response` is typed from `json_schema` (see {@link InferJsonSchema}) or from a Zod `schema`.
  *
  * @param {string} website_url - The URL of the website to extract data from.
- * @param {T | T[]} json_schema - The JSON schema to structure the extracted data.
+ * @param {JsonSchemaExample} json_schema - The JSON schema to structure the extracted data.
+ * @param {SchemaInput<T>} [schema] - Zod schema or JSON Schema used instead of (or on top of) `json_schema`;
+ * the response is validated against it. One of `json_schema` and `schema` is required.
+ * @param {boolean | number} [repair=false] - When the response does not match `schema`, ask again with the
+ * validation errors sent as `json_schema_rules` (`true` = once, or a number of attempts).
  *
  * @returns {Promise<IDataExtraction<T> | IErrorMessage>}
  * A promise that resolves to the extracted data or an error message if the request fails.
@@ -530,36 +1226,125 @@ class Wetrocloud {
  *     website_url: "https://example.com",
  *     json_schema: { title: "", description: "" }
  * });
+ * // response.response: { title: string, description: string }
  *
  * @see WetroCloud Docs: https://docs.wetrocloud.com/endpoint-explanations/data-extraction
  */
+    public async extract<T>(params: IExtractParams<T> & { schema: SchemaInput<T> }): Promise<IDataExtraction<T> | IErrorMessage>;
+    public async extract<const S extends JsonSchemaExample>(params: IExtractParams & { json_schema: S }):
+        Promise<IDataExtraction<InferJsonSchema<S>> | IErrorMessage>;
     public async extract<T>({
         website_url,
-        json_schema
-    }: {
-        website_url: string,
-        json_schema: T | T[]
-    }): Promise<IDataExtraction<T> | IErrorMessage> {
+        json_schema,
+        schema,
+        repair = false,
+        cache,
+        timeout,
+        signal,
+        tags,
+        priority
+    }: IExtractParams<T>): Promise<IDataExtraction<T> | IErrorMessage> {
         try {
+            const serializedSchema = this.serializeSchema(json_schema, schema);
+            if (!serializedSchema) throw new ValidationError("Pass `json_schema` or `schema`");
 
-            const formData = new FormData();
-            formData.append('website', website_url)
-            formData.append('json_schema', JSON.stringify(json_schema))
-
-            const res = await this.axiosApi.request({
-                url: "/data-extraction/",
-                method: RequestMethods.POST,
-                data: formData
-            })
+            return await this.withRepair(schema, repair, (feedback) => {
+                const body = { website: website_url, json_schema: serializedSchema, ...(feedback ? { json_schema_rules: feedback } : {}) };
+                return this.withCache("/data-extraction/", body, undefined, cache, async () => {
+                    this.usage.assertWithinBudget();
+                    const formData = new FormData();
+                    for (const [key, value] of Object.entries(body)) formData.append(key, value);
 
-            return res;
+                    return this.track(await this.axiosApi.request({
+                        url: "/data-extraction/",
+                        operation: "extract",
+                        method: RequestMethods.POST,
+                        idempotent: true,
+                        data: formData,
+                        timeout,
+                        signal,
+                        priority
+                    }), { method: "extract", tags });
+                }, schema);
+            });
         } catch (e) {
-            return { message: errorMessage(e) }
+            return this.handleError(e)
         }
     }
+
+    /**
+     * Extracts data from many pages with bounded concurrency and merges the answers
+     * into one array of records, each tagged with the page it came from.
+     *
+     * Pages come from any mix of a URL list, a sitemap and a start URL with a pagination
+     * pattern, and are de-duplicated. A failed page is reported without stopping the others;
+     * only an unreadable sitemap or invalid parameters fail the whole job.
+     *
+     * `data` is typed from `json_schema` (see {@link InferJsonSchema}) or from a Zod `schema`;
+     * answers that are arrays are split into one record per item.
+     *
+     * @param {string[]} [urls] - Pages to extract.
+     * @param {string} [sitemap] - URL of a `sitemap.xml` listing the pages (sitemap indexes are followed).
+     * @param {string} [start_url] - First page of a paginated listing.
+     * @param {IPagination} [pagination] - `{ pattern, from?, to, stopWhenEmpty? }`, `{page}` in `pattern` is
+     * replaced by each page number.
+     * @param {(url: string) => boolean} [filter] - Keeps only the URLs it returns `true` for.
+     * @param {number} [maxPages] - Maximum number of pages extracted.
+     * @param {JsonSchemaExample} json_schema - The shape of the data to extract from each page.
+     * @param {number} [concurrency=4] - Maximum number of pages extracted at once.
+     * @param {(progress: IExtractPagesProgress) => void} [onProgress] - Called after each page completes.
+     *
+     * @returns {Promise<IExtractPagesReport<T> | IErrorMessage>} The merged records, the per-page results and the tokens used.
+     *
+     * @example
+     * const { records, failed } = await sdk.extractPages({
+     *     sitemap: "https://shop.example/sitemap.xml",
+     *     filter: (url) => url.includes("/products/"),
+     *     json_schema: [{ name: "string", price: 0 }],
+     *     concurrency: 8
+     * });
+     * // records: { source_url: string, data: { name: string, price: number } }[]
+     */
+    public async extractPages<T>(params: IExtractPagesParams<T> & { schema: SchemaInput<T> }):
+        Promise<IExtractPagesReport<ExtractedItem<T>> | IErrorMessage>;
+    public async extractPages<const S extends JsonSchemaExample>(params: IExtractPagesParams & { json_schema: S }):
+        Promise<IExtractPagesReport<ExtractedItem<InferJsonSchema<S>>> | IErrorMessage>;
+    public async extractPages<T>(params: IExtractPagesParams<T>): Promise<IExtractPagesReport<ExtractedItem<T>> | IErrorMessage> {
+        return this.traceOperation("extractPages", async () => {
+            try {
+                return await extractPages(this, params) as IExtractPagesReport<ExtractedItem<T>>;
+            } catch (e) {
+                return this.handleError(e)
+            }
+        });
+    }
 }
 
+export * from "./errors.js";
+export { ChatSession, estimateTokens } from "./chatSession.js";
+export { UsageMeter } from "./usage.js";
+export { MemoryCacheStore, ResponseCache } from "./cache.js";
+export { RateLimiter } from "./rateLimiter.js";
+export { formatSyncPlan } from "./sync.js";
+export { CategorizeReport } from "./categorizeBatch.js";
+export { QueryStream } from "./queryStream.js";
+export type { IQueryStreamEvents, IQueryStreamResult, IWritableLike } from "./queryStream.js";
+export { createLogger, redact } from "./logger.js";
+export { createTelemetryMiddleware } from "./telemetry.js";
+export type { ITelemetryOptions, MeterLike, SpanLike, TracerLike } from "./telemetry.js";
+export type { IChatSessionOptions, IChatSessionState } from "./chatSession.js";
+export { Collection } from "./collection.js";
+export * from "./types/index.js";
+export type { IUploadProgress, UploadableResource } from "./upload.js";
+export { sniffImageType, SUPPORTED_IMAGE_TYPES } from "./image.js";
+export { getModel, listModels, MODEL_CATALOG, validateModel } from "./models.js";
+export type { IImageData, ImageInput, ImageTransform } from "./image.js";
+export { toExampleSchema, toJsonSchema, validateResponse } from "./schema.js";
+export type { IJsonSchema, InferSchema, ISchemaIssue, SchemaInput, ZodLike } from "./schema.js";
+export { DEFAULT_RETRY_OPTIONS } from "./retry.js";
+export type { RetryOptions } from "./retry.js";
 export default Wetrocloud;
 if (typeof module !== 'undefined') {
-    module.exports = Wetrocloud;
+    // keep named exports (error classes, ...) reachable from `require("wetrocloud-sdk")`
+    module.exports = Object.assign(Wetrocloud, module.exports);
 }    
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { ILogger, LogLevel } from "./types/index.js";
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error", "silent"];
+const REDACTED = "[REDACTED]";
+const SECRET_KEYS = /^(authorization|api[-_]?secret|api[-_]?key|x-api-key)$/i;
+
+/**
+ * Wraps a logger so it drops lines below `level` and never sees `secrets`:
+ * they are replaced in messages and metadata, and so are values stored
+ * under credential-like keys (`Authorization`, `apiSecret`, ...).
+ */
+export function createLogger({
+    logger = console,
+    level = "warn",
+    secrets = []
+}: {
+    logger?: ILogger,
+    level?: LogLevel,
+    secrets?: string[]
+} = {}): ILogger {
+    const threshold = LEVELS.indexOf(level);
+    const activeSecrets = secrets.filter(Boolean);
+    const log = (lineLevel: Exclude<LogLevel, "silent">) => (message: string, meta?: Record<string, unknown>) => {
+        if (LEVELS.indexOf(lineLevel) < threshold) return;
+        const text = redact(message, activeSecrets) as string;
+        if (meta === undefined) logger[lineLevel](text);
+        else logger[lineLevel](text, redact(meta, activeSecrets) as Record<string, unknown>);
+    };
+
+    return { debug: log("debug"), info: log("info"), warn: log("warn"), error: log("error") };
+}
+
+/** Returns a copy of `value` with every occurrence of `secrets` and every credential-like key masked. */
+export function redact(value: unknown, secrets: string[], seen = new WeakSet<object>()): unknown {
+    if (typeof value === "string") {
+        return secrets.reduce((text, secret) => text.split(secret).join(REDACTED), value);
+    }
+    if (!value || typeof value !== "object") return value;
+    if (seen.has(value)) return "[Circular]";
+    seen.add(value);
+
+    if (value instanceof Error) {
+        const { status, code, requestId } = value as Error & { status?: number, code?: string, requestId?: string };
+        return redact({ name: value.name, message: value.message, status, code, requestId }, secrets, seen);
+    }
+    if (Array.isArray(value)) return value.map((item) => redact(item, secrets, seen));
+
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+        [key, SECRET_KEYS.test(key) ? REDACTED : redact(item, secrets, seen)]));
+}
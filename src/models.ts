@@ -0,0 +1,110 @@
+import { ValidationError } from "./errors.js";
+import { IModelCapabilities, IModelInfo, KnownModelId } from "./types/index.js";
+
+const model = (id: KnownModelId, provider: IModelInfo["provider"], { streaming = true, vision = false, json = true }: Partial<IModelCapabilities> = {},
+    aliases?: string[]): IModelInfo =>
+    ({ id, provider, capabilities: { streaming, vision, json }, ...(aliases ? { aliases } : {}) });
+
+/**
+ * The models WetroCloud documented when this SDK version was released, see
+ * https://docs.wetrocloud.com/endpoint-explanations/models for the current list.
+ */
+export const MODEL_CATALOG: Readonly<Record<KnownModelId, IModelInfo>> = Object.freeze(Object.fromEntries([
+    model("gpt-4o", "openai", { vision: true }),
+    model("gpt-4o-mini", "openai", { vision: true }),
+    model("gpt-4.5-preview", "openai", { vision: true }),
+    model("gpt-4-turbo", "openai", { vision: true }),
+    model("gpt-4", "openai"),
+    model("gpt-3.5-turbo", "openai"),
+    model("o1", "openai", { streaming: false, vision: true }),
+    model("o1-mini", "openai", { streaming: false, json: false }),
+    model("o3-mini", "openai"),
+    model("claude-3-7-sonnet-latest", "anthropic", { vision: true }),
+    model("claude-3-5-sonnet-latest", "anthropic", { vision: true }),
+    model("claude-3-5-haiku-latest", "anthropic"),
+    model("claude-3-opus-latest", "anthropic", { vision: true }),
+    model("gemini-2.0-flash", "google", { vision: true }),
+    model("gemini-1.5-pro", "google", { vision: true }),
+    model("llama-3.3-70b", "meta", {}, ["llama-3.3-70b-versatile"]),
+    model("llama-3.1-8b-instant", "meta"),
+    model("mixtral-8x7b-32768", "mistral"),
+    model("deepseek-chat", "deepseek"),
+    model("deepseek-reasoner", "deepseek", { json: false })
+].map((info) => [info.id, info])) as Record<KnownModelId, IModelInfo>);
+
+const ALIASES: Record<string, IModelInfo> = Object.fromEntries(Object.values(MODEL_CATALOG)
+    .flatMap((info) => (info.aliases || []).map((alias) => [alias, info])));
+
+/** The catalog entry of `id` (or of a model it is an alias of), `undefined` for models the catalog does not know. */
+export function getModel(id: string): IModelInfo | undefined {
+    if (Object.prototype.hasOwnProperty.call(MODEL_CATALOG, id)) return MODEL_CATALOG[id as KnownModelId];
+    return Object.prototype.hasOwnProperty.call(ALIASES, id) ? ALIASES[id] : undefined;
+}
+
+/**
+ * The catalog's models whose capabilities match every one given.
+ *
+ * @example
+ * listModels({ vision: true, streaming: true }).map((m) => m.id);
+ */
+export function listModels(capabilities: Partial<IModelCapabilities> = {}): IModelInfo[] {
+    return Object.values(MODEL_CATALOG).filter((info) =>
+        (Object.keys(capabilities) as (keyof IModelCapabilities)[]).every((name) =>
+            capabilities[name] === undefined || info.capabilities[name] === capabilities[name]));
+}
+
+/**
+ * Checks a model before a call is sent: known models must have the capabilities the
+ * call `requires`, unknown ones are only rejected when `strict`.
+ * Returns the catalog entry, or `undefined` for an unknown model.
+ */
+export function validateModel(id: string, { requires = [], strict = false }: {
+    requires?: (keyof IModelCapabilities)[],
+    strict?: boolean
+} = {}): IModelInfo | undefined {
+    if (typeof id !== "string" || !id.trim()) throw new ValidationError("`model` must be a non-empty string");
+
+    const info = getModel(id);
+    if (!info) {
+        if (strict) throw new ValidationError(unknownModelMessage(id));
+        return undefined;
+    }
+    const missing = requires.filter((name) => !info.capabilities[name]);
+    if (missing.length) {
+        throw new ValidationError(`Model "${id}" does not support ${missing.map((name) => CAPABILITY_NAMES[name]).join(" or ")}`);
+    }
+    return info;
+}
+
+const CAPABILITY_NAMES: Record<keyof IModelCapabilities, string> = {
+    streaming: "streaming",
+    vision: "images",
+    json: "JSON answers"
+};
+
+export function unknownModelMessage(id: string): string {
+    const suggestion = closestModel(id);
+    return `Unknown model "${id}"${suggestion ? `; did you mean "${suggestion}"?` : ""}`;
+}
+
+/** The known id within two edits of `id`, to point out typos. */
+function closestModel(id: string): KnownModelId | undefined {
+    let best: { id: KnownModelId, distance: number } | undefined;
+    for (const known of Object.keys(MODEL_CATALOG) as KnownModelId[]) {
+        const distance = editDistance(id.toLowerCase(), known);
+        if (distance <= 2 && (!best || distance < best.distance)) best = { id: known, distance };
+    }
+    return best?.id;
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
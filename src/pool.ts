@@ -0,0 +1,23 @@
+/**
+ * Runs `worker` over `items` with at most `concurrency` calls in flight.
+ * Workers stop picking up new items once `shouldStop` returns `true`;
+ * calls already in flight are allowed to finish.
+ */
+export async function runPool<T>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T, index: number) => Promise<void>,
+    shouldStop: () => boolean = () => false
+): Promise<void> {
+    let next = 0;
+    const size = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+
+    const lanes = Array.from({ length: size }, async () => {
+        while (next < items.length && !shouldStop()) {
+            const index = next++;
+            await worker(items[index], index);
+        }
+    });
+
+    await Promise.all(lanes);
+}
@@ -0,0 +1,379 @@
+import { RequestAbortedError, WetrocloudError } from "./errors.js";
+import { IStreamChunk } from "./types/index.js";
+import { errorMessage } from "./utils.js";
+
+/** What a streamed answer adds up to once it has ended. */
+export interface IQueryStreamResult<T = string> {
+    /** `json` when the answer is structured, `text` otherwise. */
+    response: T | string,
+    /** Every text delta, concatenated. */
+    text: string,
+    /** The structured answer: the last object the server sent, or `text` parsed as JSON. */
+    json?: T,
+    tokens: number,
+    success: boolean
+}
+
+export interface IQueryStreamEvents<T> {
+    /** Every chunk, the final `done` one included. */
+    chunk: [chunk: IStreamChunk<T>],
+    /** A text delta and the whole text received so far. */
+    text: [delta: string, snapshot: string],
+    /** The structured answer, once the stream ended. */
+    json: [json: T],
+    /** The tokens the call used, once the stream ended. */
+    tokens: [tokens: number],
+    /**
+     * A failure. A {@link StreamParseError} about one unparsable line does not end the
+     * stream; any other error does, and `end` is not emitted.
+     */
+    error: [error: WetrocloudError],
+    end: [result: IQueryStreamResult<T>]
+}
+
+type Listener<T, K extends keyof IQueryStreamEvents<T>> = (...args: IQueryStreamEvents<T>[K]) => void;
+
+/** The parts of a Node `Writable` (or `http.ServerResponse`) the pipe methods use. */
+export interface IWritableLike {
+    write(chunk: string): boolean | void,
+    end?(): unknown,
+    once?(event: "drain" | "close" | "error", listener: () => void): unknown,
+    off?(event: "drain" | "close" | "error", listener: () => void): unknown,
+    setHeader?(name: string, value: string): unknown,
+    flushHeaders?(): unknown,
+    headersSent?: boolean,
+    writableEnded?: boolean
+}
+
+/**
+ * A streamed answer of `queryResource`, `chat` or `textGeneration`.
+ *
+ * Iterate it (`for await`) to get the chunks as before, or listen to its events,
+ * wait for {@link QueryStream.finalResponse}, {@link QueryStream.tee} it or pipe it.
+ * A stream is read once: listeners added without iterating start reading it on the
+ * next tick, after which iterating, teeing or piping it throws.
+ *
+ * Until it ends, a stream holds its connection and its `rateLimit` slot: {@link QueryStream.cancel}
+ * one you will not read.
+ */
+export class QueryStream<T = string> implements AsyncGenerator<IStreamChunk<T>, void, undefined> {
+    private listeners: { [K in keyof IQueryStreamEvents<T>]?: Listener<T, K>[] } = {};
+    private source: AsyncIterable<IStreamChunk<T>>;
+    private onCancel?: () => void;
+    private iterator?: AsyncGenerator<IStreamChunk<T>, void, undefined>;
+    /** Read in the background by {@link QueryStream.start}, so nobody else may iterate it. */
+    private draining = false;
+    private result: Promise<IQueryStreamResult<T>>;
+    private settle!: { resolve: (result: IQueryStreamResult<T>) => void, reject: (error: WetrocloudError) => void };
+    private settled = false;
+    private text = "";
+    private json?: T;
+    private tokens = 0;
+    private success = true;
+    /** The source reached its final `done` chunk; otherwise the consumer stopped early. */
+    private done = false;
+
+    /**
+     * @param source - The chunks, or a function building them that is handed a callback
+     * to report lines it skipped.
+     * @param onCancel - Releases what `source` holds when the stream is cancelled before
+     * it was read, since its own cleanup never runs then.
+     */
+    constructor(source: AsyncIterable<IStreamChunk<T>> | ((onParseError: (error: WetrocloudError) => void) => AsyncIterable<IStreamChunk<T>>),
+        { onCancel }: { onCancel?: () => void } = {}) {
+        this.source = typeof source === "function" ? source((error) => this.emit("error", error)) : source;
+        this.onCancel = onCancel;
+        this.result = new Promise((resolve, reject) => this.settle = { resolve, reject });
+        // rejections are reported through finalResponse() and `error`; never as unhandled
+        this.result.catch(() => { });
+    }
+
+    public on<K extends keyof IQueryStreamEvents<T>>(event: K, listener: Listener<T, K>): this {
+        (this.listeners[event] ??= [] as never[]).push(listener as never);
+        queueMicrotask(() => this.start());
+        return this;
+    }
+
+    public once<K extends keyof IQueryStreamEvents<T>>(event: K, listener: Listener<T, K>): this {
+        const wrapper = ((...args: IQueryStreamEvents<T>[K]) => {
+            this.off(event, wrapper);
+            listener(...args);
+        }) as Listener<T, K>;
+        return this.on(event, wrapper);
+    }
+
+    public off<K extends keyof IQueryStreamEvents<T>>(event: K, listener: Listener<T, K>): this {
+        const listeners = this.listeners[event] as Listener<T, K>[] | undefined;
+        if (listeners) this.listeners[event] = listeners.filter((l) => l !== listener) as never;
+        return this;
+    }
+
+    /** Resolves once the stream ended, rejects when it failed or was closed early. */
+    public finalResponse(): Promise<IQueryStreamResult<T>> {
+        this.start();
+        return this.result;
+    }
+
+    /**
+     * Splits the stream into `count` independent streams, each seeing every chunk.
+     * Chunks are buffered for the consumers that read slower than the others.
+     */
+    public tee(count = 2): QueryStream<T>[] {
+        this.assertUnread();
+        const channels = Array.from({ length: count }, () => new Channel<IStreamChunk<T>>());
+        this.on("chunk", (chunk) => channels.forEach((channel) => channel.push(chunk)));
+        this.result.then(() => channels.forEach((channel) => channel.close()), (error) => channels.forEach((channel) => channel.close(error)));
+        return channels.map((channel) => new QueryStream<T>(channel));
+    }
+
+    /**
+     * Writes the answer to a Node `Writable` as it arrives: text deltas (or JSON values)
+     * with `format: "text"`, one JSON chunk per line with `"ndjson"`. Waits for `drain`
+     * when the destination is full.
+     */
+    public pipe(destination: IWritableLike, { format = "text", end = true }: { format?: "text" | "ndjson", end?: boolean } = {}):
+        Promise<IQueryStreamResult<T>> {
+        return this.writeTo(destination, end, {
+            chunk: (chunk) => format === "ndjson"
+                ? `${JSON.stringify(chunk)}\n`
+                : chunk.done ? "" : typeof chunk.response === "string" ? chunk.response : JSON.stringify(chunk.response)
+        });
+    }
+
+    /**
+     * Streams the answer as server-sent events, typically to an `http.ServerResponse`:
+     * one `chunk` event per chunk, then `end` with the result or `error`. Sets the SSE
+     * headers when they were not sent yet, and stops reading when the client disconnects.
+     *
+     * @example
+     * http.createServer(async (req, res) => {
+     *     const stream = await sdk.queryResource({ collection_id, request_query: "..." });
+     *     if (stream instanceof QueryStream) await stream.pipeSSE(res).catch(() => { });
+     * });
+     */
+    public pipeSSE(response: IWritableLike): Promise<IQueryStreamResult<T>> {
+        if (!response.headersSent && response.setHeader) {
+            response.setHeader("Content-Type", "text/event-stream");
+            response.setHeader("Cache-Control", "no-cache");
+            response.setHeader("Connection", "keep-alive");
+            response.flushHeaders?.();
+        }
+        const event = (name: string, data: unknown) => `event: ${name}\ndata: ${JSON.stringify(data)}\n\n`;
+        return this.writeTo(response, true, {
+            chunk: (chunk) => event("chunk", chunk),
+            end: (result) => event("end", result),
+            error: (error) => event("error", { name: error.name, message: error.message, status: error.status })
+        });
+    }
+
+    /**
+     * Stops reading and releases the connection (and `rateLimit` slot) the stream holds;
+     * `finalResponse()` then rejects with a {@link RequestAbortedError} unless it already ended.
+     */
+    public async cancel(): Promise<void> {
+        if (this.iterator) {
+            await this.iterator.return();
+            return;
+        }
+        this.iterator = (async function* (): AsyncGenerator<IStreamChunk<T>, void, undefined> { })();
+        this.settled = true;
+        this.settle.reject(new RequestAbortedError("The stream was cancelled before it was read", { code: "ERR_CANCELED" }));
+        this.onCancel?.();
+    }
+
+    public next(): Promise<IteratorResult<IStreamChunk<T>, void>> {
+        this.assertNotDraining();
+        return this.read().next();
+    }
+
+    public async return(value?: void | PromiseLike<void>): Promise<IteratorResult<IStreamChunk<T>, void>> {
+        if (!this.iterator) await this.cancel();
+        return this.read().return(value);
+    }
+
+    public throw(e?: unknown): Promise<IteratorResult<IStreamChunk<T>, void>> {
+        return this.read().throw(e);
+    }
+
+    public [Symbol.asyncIterator](): this {
+        this.assertNotDraining();
+        return this;
+    }
+
+    private read(): AsyncGenerator<IStreamChunk<T>, void, undefined> {
+        return this.iterator ??= this.observe();
+    }
+
+    private assertUnread() {
+        if (this.iterator) throw new Error("The stream is already being read; tee() it to consume it more than once");
+    }
+
+    private assertNotDraining() {
+        if (this.draining) {
+            throw new Error("The stream is already being read for its listeners; iterate it before the next tick, or tee() it first");
+        }
+    }
+
+    /** Reads the stream in the background, for listeners and finalResponse(). */
+    private start() {
+        if (this.iterator) return;
+        this.draining = true;
+        const iterator = this.read();
+        void (async () => {
+            try {
+                while (!(await iterator.next()).done);
+            } catch {
+                // reported through `error` and finalResponse()
+            }
+        })();
+    }
+
+    private async *observe(): AsyncGenerator<IStreamChunk<T>, void, undefined> {
+        try {
+            for await (const chunk of this.source) {
+                this.update(chunk);
+                this.emit("chunk", chunk);
+                yield chunk;
+            }
+        } catch (e) {
+            const error = errorMessage(e);
+            this.settled = true;
+            this.emit("error", error);
+            this.settle.reject(error);
+            throw error;
+        } finally {
+            if (!this.settled) this.finish();
+        }
+    }
+
+    private update(chunk: IStreamChunk<T>) {
+        if (!chunk || typeof chunk !== "object") return;
+        if (chunk.done) this.done = true;
+        if (typeof chunk.tokens === "number") this.tokens = chunk.tokens;
+        if (typeof chunk.success === "boolean") this.success = chunk.success;
+        if (typeof chunk.response === "string") {
+            if (!chunk.response) return;
+            this.text += chunk.response;
+            this.emit("text", chunk.response, this.text);
+        } else if (chunk.response !== undefined && chunk.response !== null) {
+            this.json = chunk.response as T;
+        }
+    }
+
+    /** Settles the result when the source ended, or when the consumer stopped reading early. */
+    private finish() {
+        this.settled = true;
+        if (!this.done) {
+            const error = new RequestAbortedError("The stream was closed before it ended", { code: "ERR_CANCELED" });
+            this.settle.reject(error);
+            return;
+        }
+        const json = this.json ?? parseJson<T>(this.text);
+        const result: IQueryStreamResult<T> = {
+            response: json ?? this.text,
+            text: this.text,
+            ...(json !== undefined ? { json } : {}),
+            tokens: this.tokens,
+            success: this.success
+        };
+        if (json !== undefined) this.emit("json", json);
+        this.emit("tokens", this.tokens);
+        this.emit("end", result);
+        this.settle.resolve(result);
+    }
+
+    private emit<K extends keyof IQueryStreamEvents<T>>(event: K, ...args: IQueryStreamEvents<T>[K]) {
+        for (const listener of (this.listeners[event] ?? []) as Listener<T, K>[]) listener(...args);
+    }
+
+    private async writeTo(destination: IWritableLike, end: boolean, serialize: {
+        chunk: (chunk: IStreamChunk<T>) => string,
+        end?: (result: IQueryStreamResult<T>) => string,
+        error?: (error: WetrocloudError) => string
+    }): Promise<IQueryStreamResult<T>> {
+        this.assertUnread();
+        let closed = false;
+        const onClose = () => {
+            closed = true;
+            // stop reading, releasing the connection, as nobody is left to write to
+            void this.return();
+        };
+        destination.once?.("close", onClose);
+        destination.once?.("error", onClose);
+
+        // a destination closed while full never drains
+        const drained = () => new Promise<void>((resolve) => {
+            const done = () => {
+                for (const event of ["drain", "close", "error"] as const) destination.off?.(event, done);
+                resolve();
+            };
+            for (const event of ["drain", "close", "error"] as const) destination.once!(event, done);
+        });
+        const write = async (data: string) => {
+            if (!data || closed) return;
+            if (destination.write(data) === false && destination.once) await drained();
+        };
+
+        try {
+            for await (const chunk of this) {
+                if (closed) break;
+                await write(serialize.chunk(chunk));
+            }
+            const result = await this.result;
+            if (serialize.end) await write(serialize.end(result));
+            return result;
+        } catch (e) {
+            const error = errorMessage(e);
+            if (serialize.error) await write(serialize.error(error));
+            throw error;
+        } finally {
+            destination.off?.("close", onClose);
+            destination.off?.("error", onClose);
+            if (end && !closed && !destination.writableEnded) destination.end?.();
+        }
+    }
+}
+
+/** `text` parsed as JSON, allowing a Markdown code fence around it; `undefined` when it is not JSON. */
+function parseJson<T>(text: string): T | undefined {
+    const trimmed = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, "$1");
+    if (!/^[[{]/.test(trimmed)) return undefined;
+    try {
+        return JSON.parse(trimmed) as T;
+    } catch {
+        return undefined;
+    }
+}
+
+/** A single-consumer async queue feeding one branch of {@link QueryStream.tee}. */
+class Channel<T> implements AsyncIterable<T> {
+    private items: T[] = [];
+    private closed = false;
+    private failure?: unknown;
+    private wake?: () => void;
+
+    public push(item: T) {
+        this.items.push(item);
+        this.wake?.();
+    }
+
+    public close(error?: unknown) {
+        this.closed = true;
+        this.failure = error;
+        this.wake?.();
+    }
+
+    public async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+        while (true) {
+            if (this.items.length) {
+                yield this.items.shift()!;
+            } else if (this.closed) {
+                if (this.failure) throw this.failure;
+                return;
+            } else {
+                await new Promise<void>((resolve) => this.wake = resolve);
+                this.wake = undefined;
+            }
+        }
+    }
+}
@@ -0,0 +1,156 @@
+import { RequestAbortedError } from "./errors.js";
+import { IRateLimitBucket, IRateLimitBucketStats, IRateLimitOptions, IRateLimitStats } from "./types/index.js";
+
+const DEFAULT_BUCKET = "default";
+
+interface Waiter {
+    priority: number,
+    enqueuedAt: number,
+    resolve: (release: () => void) => void,
+    reject: (reason: unknown) => void,
+    cleanup: () => void
+}
+
+const aborted = (signal?: AbortSignal) =>
+    new RequestAbortedError("Request was aborted", { code: "ERR_CANCELED", cause: signal?.reason });
+
+const normalizePath = (path: string) => `/${path.replace(/^\/+|\/+$/g, "")}/`;
+
+/** One sliding-window and concurrency limit with its priority queue. */
+class Bucket {
+    private queue: Waiter[] = [];
+    private starts: number[] = [];
+    private active = 0;
+    private timer?: ReturnType<typeof setTimeout>;
+    /** Requests that got a slot, and their summed and longest waits. */
+    public readonly waits = { count: 0, total: 0, max: 0 };
+    private requestsPerInterval: number;
+    private interval: number;
+    private maxConcurrent: number;
+
+    constructor({ requestsPerInterval = Infinity, interval = 1000, maxConcurrent = Infinity }: IRateLimitBucket) {
+        this.requestsPerInterval = requestsPerInterval;
+        this.interval = interval;
+        this.maxConcurrent = maxConcurrent;
+    }
+
+    public acquire(priority: number, signal?: AbortSignal): Promise<() => void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) return reject(aborted(signal));
+
+            const onAbort = () => {
+                this.queue.splice(this.queue.indexOf(waiter), 1);
+                reject(aborted(signal));
+            };
+            const waiter: Waiter = {
+                priority,
+                enqueuedAt: Date.now(),
+                resolve,
+                reject,
+                cleanup: () => signal?.removeEventListener("abort", onAbort)
+            };
+            signal?.addEventListener("abort", onAbort, { once: true });
+
+            // higher priorities first, first come first served among equals
+            const index = this.queue.findIndex((queued) => queued.priority < priority);
+            this.queue.splice(index === -1 ? this.queue.length : index, 0, waiter);
+            this.pump();
+        });
+    }
+
+    public stats(): IRateLimitBucketStats {
+        return {
+            queued: this.queue.length,
+            inFlight: this.active,
+            oldestWaitMs: this.queue.length ? Date.now() - Math.min(...this.queue.map((w) => w.enqueuedAt)) : 0,
+            averageWaitMs: this.waits.count ? this.waits.total / this.waits.count : 0,
+            maxWaitMs: this.waits.max
+        };
+    }
+
+    private pump() {
+        while (this.queue.length && this.active < this.maxConcurrent) {
+            const now = Date.now();
+            while (this.starts.length && this.starts[0] <= now - this.interval) this.starts.shift();
+            if (this.starts.length >= this.requestsPerInterval) {
+                this.schedule(this.starts[0] + this.interval - now);
+                return;
+            }
+
+            const waiter = this.queue.shift()!;
+            const waited = now - waiter.enqueuedAt;
+            this.waits.count++;
+            this.waits.total += waited;
+            this.waits.max = Math.max(this.waits.max, waited);
+            if (this.requestsPerInterval !== Infinity) this.starts.push(now);
+            this.active++;
+            waiter.cleanup();
+            waiter.resolve(this.releaser());
+        }
+    }
+
+    private releaser() {
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            this.active--;
+            this.pump();
+        };
+    }
+
+    private schedule(ms: number) {
+        if (this.timer) return;
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.pump();
+        }, ms);
+    }
+}
+
+/**
+ * Client-side request limiter: a sliding window of requests per interval and a
+ * cap on requests in flight, with an optional bucket per endpoint. Requests wait
+ * in a priority queue, so interactive calls can overtake batch jobs.
+ *
+ * @example
+ * const sdk = new Wetrocloud({
+ *     rateLimit: { requestsPerInterval: 10, interval: 1000, endpoints: { "/resource/insert/": { maxConcurrent: 2 } } }
+ * });
+ * await sdk.chat({ ...params, priority: 10 });
+ * sdk.rateLimiter?.stats(); // { queued, inFlight, oldestWaitMs, averageWaitMs, maxWaitMs, buckets }
+ */
+export class RateLimiter {
+    private buckets = new Map<string, Bucket>();
+
+    constructor({ endpoints = {}, ...defaults }: IRateLimitOptions = {}) {
+        this.buckets.set(DEFAULT_BUCKET, new Bucket(defaults));
+        for (const [path, limits] of Object.entries(endpoints)) {
+            this.buckets.set(normalizePath(path), new Bucket(limits));
+        }
+    }
+
+    /**
+     * Waits for a slot for a request to `path` and resolves to the function releasing it.
+     * Rejects with the signal's reason when `signal` aborts while queued.
+     */
+    public acquire(path: string, { priority = 0, signal }: { priority?: number, signal?: AbortSignal } = {}): Promise<() => void> {
+        const bucket = this.buckets.get(normalizePath(path)) || this.buckets.get(DEFAULT_BUCKET)!;
+        return bucket.acquire(priority, signal);
+    }
+
+    /** Queue depth, requests in flight and wait times, in total and per bucket. */
+    public stats(): IRateLimitStats {
+        const buckets = Object.fromEntries([...this.buckets].map(([name, bucket]) => [name, bucket.stats()]));
+        const all = Object.values(buckets);
+        const waits = [...this.buckets.values()].reduce((sum, { waits }) => ({ count: sum.count + waits.count, total: sum.total + waits.total }), { count: 0, total: 0 });
+        return {
+            queued: all.reduce((sum, b) => sum + b.queued, 0),
+            inFlight: all.reduce((sum, b) => sum + b.inFlight, 0),
+            oldestWaitMs: Math.max(0, ...all.map((b) => b.oldestWaitMs)),
+            averageWaitMs: waits.count ? waits.total / waits.count : 0,
+            maxWaitMs: Math.max(0, ...all.map((b) => b.maxWaitMs)),
+            buckets
+        };
+    }
+}
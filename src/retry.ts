@@ -0,0 +1,85 @@
+import { getHeader, parseRetryAfter } from "./utils.js";
+
+export interface RetryOptions {
+    /** How many times a failed request is retried (the first attempt is not counted). */
+    maxRetries: number,
+    /** Delay before the first retry, doubled on every following attempt. */
+    initialDelayMs: number,
+    /** Upper bound for the computed backoff and for `Retry-After`. */
+    maxDelayMs: number,
+    /** Randomizes each delay between 50% and 100% of its value to spread retries out. */
+    jitter: boolean,
+    /** HTTP statuses worth retrying. */
+    retryableStatuses: number[],
+    /** Low-level error codes (no HTTP response) worth retrying. */
+    retryableErrorCodes: string[],
+    /**
+     * Also retry requests that are not idempotent, such as `POST /resource/insert/`.
+     * Off by default because a retried insert may create a duplicate resource.
+     */
+    retryNonIdempotent: boolean
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    maxRetries: 2,
+    initialDelayMs: 500,
+    maxDelayMs: 30_000,
+    jitter: true,
+    retryableStatuses: [408, 429, 500, 502, 503, 504],
+    retryableErrorCodes: ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "ECONNABORTED", "EPIPE", "EAI_AGAIN", "ERR_NETWORK"],
+    retryNonIdempotent: false
+};
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+/**
+ * Merges user supplied retry settings over the defaults.
+ * `false` disables retries altogether.
+ */
+export function resolveRetryOptions(...overrides: (Partial<RetryOptions> | false | undefined)[]): RetryOptions {
+    return overrides.reduce<RetryOptions>((acc, override) => {
+        if (override === false) return { ...acc, maxRetries: 0 };
+        return { ...acc, ...(override || {}) };
+    }, DEFAULT_RETRY_OPTIONS);
+}
+
+export function isIdempotent(method: string): boolean {
+    return IDEMPOTENT_METHODS.includes(method.toUpperCase());
+}
+
+/** Decides whether `error` (thrown by the transport) should trigger another attempt. */
+export function shouldRetry(error: any, attempt: number, options: RetryOptions, idempotent: boolean): boolean {
+    if (attempt >= options.maxRetries) return false;
+    if (!idempotent && !options.retryNonIdempotent) return false;
+    if (error?.code === "ERR_CANCELED" || error?.name === "AbortError" || error?.name === "CanceledError") return false;
+
+    const status: number | undefined = error?.response?.status ?? error?.status;
+    if (status !== undefined) return options.retryableStatuses.includes(status);
+    return options.retryableErrorCodes.includes(error?.code);
+}
+
+/**
+ * Computes how long to wait before retry number `attempt` (0-based),
+ * honoring the server's `Retry-After` header when present.
+ */
+export function computeDelay(error: any, attempt: number, options: RetryOptions): number {
+    const retryAfter = error?.retryAfter ?? parseRetryAfter(getHeader(error?.response?.headers, "retry-after"));
+    if (retryAfter !== undefined) return Math.min(retryAfter, options.maxDelayMs);
+
+    const backoff = Math.min(options.initialDelayMs * 2 ** attempt, options.maxDelayMs);
+    return options.jitter ? backoff / 2 + Math.random() * (backoff / 2) : backoff;
+}
+
+/** Waits `ms` milliseconds, rejecting early with the signal's reason if it aborts. */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+});
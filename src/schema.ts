@@ -0,0 +1,210 @@
+import { SchemaValidationError } from "./errors.js";
+
+/**
+ * Structural type matching a Zod schema (v3 or v4) without depending on Zod.
+ * `T` is the type the schema parses to.
+ */
+export interface ZodLike<T = unknown> {
+    safeParse(data: unknown): { success: true, data: T } | { success: false, error: { issues: { path: PropertyKey[], message: string }[] } };
+}
+
+/** The subset of JSON Schema the SDK understands. */
+export interface IJsonSchema {
+    type?: "string" | "number" | "integer" | "boolean" | "object" | "array" | "null" | string[],
+    description?: string,
+    properties?: Record<string, IJsonSchema>,
+    required?: string[],
+    items?: IJsonSchema,
+    enum?: unknown[],
+    anyOf?: IJsonSchema[],
+    [keyword: string]: unknown
+}
+
+/** A runtime schema accepted through the `schema` option. */
+export type SchemaInput<T = unknown> = ZodLike<T> | IJsonSchema;
+
+/** The type a schema validates to: Zod's output type, `unknown` for JSON Schema. */
+export type InferSchema<S> = S extends ZodLike<infer T> ? T : unknown;
+
+export interface ISchemaIssue {
+    /** Dot-separated path of the failing value, `""` for the root. */
+    path: string,
+    message: string
+}
+
+const JSON_SCHEMA_TYPES = ["string", "number", "integer", "boolean", "object", "array", "null"];
+
+export function isZodSchema(schema: unknown): schema is ZodLike {
+    return typeof (schema as ZodLike)?.safeParse === "function";
+}
+
+export function isJsonSchema(schema: unknown): schema is IJsonSchema {
+    if (!schema || typeof schema !== "object" || Array.isArray(schema) || isZodSchema(schema)) return false;
+    const { type, properties, items, $schema } = schema as IJsonSchema;
+    return (typeof type === "string" && JSON_SCHEMA_TYPES.includes(type))
+        || Array.isArray(type)
+        || (typeof properties === "object" && properties !== null)
+        || typeof items === "object"
+        || typeof $schema === "string";
+}
+
+/** Converts a Zod schema to JSON Schema by walking its definition. */
+export function zodToJsonSchema(schema: any): IJsonSchema {
+    const def = schema?._zod?.def ?? schema?._def ?? {};
+    // Zod 4 stores the kind in `def.type`, Zod 3 in `def.typeName` ("ZodString", ...)
+    const kind: string = typeof def.type === "string" ? def.type : String(def.typeName || "").replace(/^Zod/, "").toLowerCase();
+    const description: string | undefined = schema?.description ?? def.description;
+    const withDescription = (json: IJsonSchema): IJsonSchema => description ? { ...json, description } : json;
+
+    switch (kind) {
+        case "string":
+        case "number":
+        case "boolean":
+        case "null":
+            return withDescription({ type: kind });
+        case "bigint":
+            return withDescription({ type: "integer" });
+        case "date":
+            return withDescription({ type: "string", description: description || "ISO 8601 date" });
+        case "array":
+            return withDescription({ type: "array", items: zodToJsonSchema(def.element ?? def.type) });
+        case "object": {
+            const shape = typeof def.shape === "function" ? def.shape() : def.shape || {};
+            const properties: Record<string, IJsonSchema> = {};
+            const required: string[] = [];
+            for (const [key, value] of Object.entries<any>(shape)) {
+                properties[key] = zodToJsonSchema(value);
+                const valueKind = value?._zod?.def?.type ?? value?._def?.typeName;
+                if (!["optional", "ZodOptional", "default", "ZodDefault"].includes(valueKind)) required.push(key);
+            }
+            return withDescription({ type: "object", properties, required });
+        }
+        case "enum":
+            return withDescription({ type: "string", enum: def.values ?? Object.values(def.entries || {}) });
+        case "literal":
+            return withDescription({ enum: def.values ?? [def.value] });
+        case "union":
+            return withDescription({ anyOf: (def.options || []).map(zodToJsonSchema) });
+        case "optional":
+        case "nullable":
+        case "default":
+            return withDescription(zodToJsonSchema(def.innerType));
+        default:
+            return withDescription({});
+    }
+}
+
+/** Returns the JSON Schema behind any supported schema input. */
+export function toJsonSchema(schema: SchemaInput): IJsonSchema {
+    return isZodSchema(schema) ? zodToJsonSchema(schema) : schema;
+}
+
+/**
+ * Converts a JSON Schema into the example-object format the WetroCloud API
+ * expects for `json_schema`, e.g. `{ title: "string", tags: ["string"] }`.
+ */
+export function toExampleSchema(schema: IJsonSchema): unknown {
+    const type = Array.isArray(schema.type) ? schema.type.find((t) => t !== "null") : schema.type;
+
+    if (schema.enum) return `one of: ${schema.enum.map((v) => JSON.stringify(v)).join(" | ")}`;
+    if (schema.anyOf) return toExampleSchema(schema.anyOf[0] || {});
+    if (type === "object" || schema.properties) {
+        return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value]) => [key, toExampleSchema(value)]));
+    }
+    if (type === "array") return [toExampleSchema(schema.items || {})];
+    const hint = type || "string";
+    return schema.description ? `${hint} (${schema.description})` : hint;
+}
+
+/** Checks `value` against a JSON Schema, returning every failing path. */
+export function validateJsonSchema(schema: IJsonSchema, value: unknown, path: string[] = []): ISchemaIssue[] {
+    const at = path.join(".");
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+
+    if (schema.anyOf) {
+        const ok = schema.anyOf.some((option) => validateJsonSchema(option, value, path).length === 0);
+        return ok ? [] : [{ path: at, message: "Does not match any of the allowed schemas" }];
+    }
+    if (schema.enum && !schema.enum.some((allowed) => JSON.stringify(allowed) === JSON.stringify(value))) {
+        return [{ path: at, message: `Expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}` }];
+    }
+    if (types.length && !types.some((type) => matchesType(type, value))) {
+        return [{ path: at, message: `Expected ${types.join(" | ")}, received ${describe(value)}` }];
+    }
+
+    const issues: ISchemaIssue[] = [];
+    if (isPlainObject(value) && schema.properties) {
+        for (const key of schema.required || []) {
+            if (value[key] === undefined) issues.push({ path: [...path, key].join("."), message: "Required" });
+        }
+        for (const [key, property] of Object.entries(schema.properties)) {
+            if (value[key] !== undefined) issues.push(...validateJsonSchema(property, value[key], [...path, key]));
+        }
+    }
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, index) => issues.push(...validateJsonSchema(schema.items!, item, [...path, String(index)])));
+    }
+    return issues;
+}
+
+/**
+ * Validates a structured response against a schema.
+ * Returns the parsed value (Zod may transform it) or throws a {@link SchemaValidationError}.
+ */
+export function validateResponse<T>(schema: SchemaInput<T>, response: unknown): T {
+    const value = typeof response === "string" ? parseMaybeJson(response) : response;
+
+    let issues: ISchemaIssue[];
+    if (isZodSchema(schema)) {
+        const result = schema.safeParse(value);
+        if (result.success) return result.data as T;
+        issues = (result as Extract<typeof result, { success: false }>).error.issues.map((issue) => ({ path: issue.path.map(String).join("."), message: issue.message }));
+    } else {
+        issues = validateJsonSchema(schema, value);
+        if (!issues.length) return value as T;
+    }
+
+    throw new SchemaValidationError(
+        `Response does not match the schema: ${issues.map((i) => `${i.path || "(root)"}: ${i.message}`).join("; ")}`,
+        { issues, data: response }
+    );
+}
+
+/** Whether {@link validateResponse} accepts `response`. */
+export function matchesSchema(schema: SchemaInput, response: unknown): boolean {
+    try {
+        validateResponse(schema, response);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function parseMaybeJson(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+function matchesType(type: string, value: unknown): boolean {
+    switch (type) {
+        case "integer": return Number.isInteger(value);
+        case "number": return typeof value === "number" && !Number.isNaN(value);
+        case "array": return Array.isArray(value);
+        case "object": return isPlainObject(value);
+        case "null": return value === null;
+        default: return typeof value === type;
+    }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+}
@@ -0,0 +1,165 @@
+import { RequestAbortedError, StreamParseError } from "./errors.js";
+import { ILogger, IStreamChunk } from "./types/index.js";
+import { errorMessage } from "./utils.js";
+
+/**
+ * Iterates a streamed response body as decoded text, whether the transport
+ * handed back a Node `Readable` (Axios) or a web `ReadableStream` (fetch).
+ *
+ * The body is torn down when `signal` aborts (the iterator then throws a
+ * {@link RequestAbortedError}) or when the consumer stops iterating early.
+ */
+export async function* readTextChunks(body: any, signal?: AbortSignal): AsyncGenerator<string> {
+    const decoder = new TextDecoder();
+    const aborted = () => new RequestAbortedError("Request was aborted", { code: "ERR_CANCELED", cause: signal?.reason });
+    if (signal?.aborted) {
+        destroy(body);
+        throw aborted();
+    }
+
+    const onAbort = () => destroy(body, reader);
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+        if (typeof body?.getReader === "function") {
+            reader = (body as ReadableStream<Uint8Array>).getReader();
+            while (true) {
+                const { done, value } = await reader.read();
+                if (signal?.aborted) throw aborted();
+                if (done) break;
+                yield decoder.decode(value, { stream: true });
+            }
+        } else {
+            for await (const chunk of body as AsyncIterable<Uint8Array | string>) {
+                if (signal?.aborted) throw aborted();
+                yield typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+            }
+        }
+    } catch (e) {
+        if (signal?.aborted) throw aborted();
+        throw e;
+    } finally {
+        signal?.removeEventListener("abort", onAbort);
+        // no-op when the body was fully read; releases the connection when the consumer stopped early
+        destroy(body, reader);
+    }
+
+    const rest = decoder.decode();
+    if (rest) yield rest;
+}
+
+/** Releases a response body that will not be read. */
+export function discardBody(body: any) {
+    destroy(body);
+}
+
+function destroy(body: any, reader?: ReadableStreamDefaultReader<Uint8Array>) {
+    if (reader) {
+        reader.cancel().catch(() => { });
+    } else if (typeof body?.destroy === "function") {
+        body.destroy();
+    } else if (typeof body?.cancel === "function" && !body.locked) {
+        body.cancel().catch(() => { });
+    }
+}
+
+/**
+ * Parses a newline-delimited JSON body into objects, one per line.
+ *
+ * Lines that are not valid JSON throw a {@link StreamParseError} when
+ * `throwOnParseError` is set and are skipped otherwise, with a warning to `logger`
+ * and the error passed to `onParseError`.
+ * Transport failures surface as `WetrocloudError`s.
+ */
+export async function* parseJsonLines<T>(body: any, {
+    signal,
+    throwOnParseError = false,
+    logger,
+    onParseError
+}: {
+    signal?: AbortSignal,
+    throwOnParseError?: boolean,
+    logger?: ILogger,
+    onParseError?: (error: StreamParseError) => void
+} = {}): AsyncGenerator<T> {
+    const parse = (jsonPart: string, label: string) => {
+        try {
+            return JSON.parse(jsonPart) as T;
+        } catch (e) {
+            const error = new StreamParseError(`Error parsing ${label}`, { chunk: jsonPart, cause: e });
+            if (throwOnParseError) throw error;
+            logger?.warn(`Error parsing ${label}`, { chunk: jsonPart, error: e });
+            onParseError?.(error);
+            return undefined;
+        }
+    };
+
+    let buffer = "";
+    try {
+        for await (const chunk of readTextChunks(body, signal)) {
+            buffer += chunk;
+            let parts = buffer.split("\n");
+
+            // Process complete JSON lines
+            while (parts.length > 1) {
+                const jsonPart = parts.shift();
+                if (jsonPart?.trim()) {
+                    const parsed = parse(jsonPart, "JSON chunk");
+                    if (parsed !== undefined) yield parsed;
+                }
+            }
+
+            // Keep the last part (it might be incomplete)
+            buffer = parts.join("\n");
+        }
+    } catch (e) {
+        throw errorMessage(e);
+    }
+
+    // Process any remaining buffered data
+    if (buffer.trim()) {
+        const parsed = parse(buffer, "final JSON chunk");
+        if (parsed !== undefined) yield parsed;
+    }
+}
+
+/**
+ * Turns a streamed response body into the chunks of the {@link QueryStream} returned
+ * by the streaming SDK methods: server chunks are passed through as they arrive, followed by a
+ * final `{ response: "", tokens, success, done: true }` chunk carrying the last
+ * token count the server reported (`0` when it reported none).
+ *
+ * `onChunk` sees every chunk before it is yielded; `onDone` receives the token
+ * count (and the error, if any) once the stream ends, is abandoned or fails.
+ */
+export async function* toResponseStream<T>(body: any, { onChunk, onDone, ...options }: {
+    signal?: AbortSignal,
+    throwOnParseError?: boolean,
+    logger?: ILogger,
+    onParseError?: (error: StreamParseError) => void,
+    onChunk?: (chunk: IStreamChunk<T>) => void,
+    onDone?: (tokens: number, error?: unknown) => void
+}): AsyncGenerator<IStreamChunk<T>, void, undefined> {
+    let tokens = 0;
+    let success = true;
+    let failure: unknown;
+    try {
+        for await (const chunk of parseJsonLines<IStreamChunk<T>>(body, options)) {
+            if (chunk && typeof chunk === "object") {
+                if (typeof chunk.tokens === "number") tokens = chunk.tokens;
+                if (typeof chunk.success === "boolean") success = chunk.success;
+            }
+            onChunk?.(chunk);
+            yield chunk;
+        }
+        const last: IStreamChunk<T> = { response: "", tokens, success, done: true };
+        onChunk?.(last);
+        yield last;
+    } catch (e) {
+        failure = e;
+        throw e;
+    } finally {
+        onDone?.(tokens, failure);
+    }
+}
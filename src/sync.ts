@@ -0,0 +1,161 @@
+import type Wetrocloud from "./index.js";
+import { NotFoundError, RequestAbortedError, ValidationError, WetrocloudError } from "./errors.js";
+import { matchesAny } from "./glob.js";
+import { runPool } from "./pool.js";
+import { loadFs } from "./upload.js";
+import { errorMessage, localFileError } from "./utils.js";
+import {
+    IErrorMessage,
+    IInsertResourceCollection,
+    ISyncDirectoryParams,
+    ISyncManifest,
+    ISyncPlan,
+    ISyncProgress,
+    ISyncReport,
+    ResourceType
+} from "./types/index.js";
+
+type Fs = Awaited<ReturnType<typeof loadFs>>;
+
+export const MANIFEST_FILE = ".wetrocloud-sync.json";
+
+/**
+ * Mirrors a directory into a collection; see `Wetrocloud.syncDirectory`.
+ *
+ * The manifest is rewritten after every completed insert or delete, so a sync
+ * interrupted midway picks up where it stopped: a file whose old resource was
+ * deleted but whose new one was not inserted yet is simply inserted next time.
+ */
+export async function syncDirectory(sdk: Wetrocloud, {
+    collection_id,
+    dir,
+    include,
+    exclude = [],
+    manifest,
+    dryRun = false,
+    concurrency = 4,
+    onProgress,
+    ...options
+}: ISyncDirectoryParams): Promise<ISyncReport> {
+    const fs = await loadFs();
+    const root = dir.replace(/[\\/]+$/, "") || ".";
+    const manifestPath = manifest || `${root}/${MANIFEST_FILE}`;
+    const state = await readManifest(fs, manifestPath, collection_id);
+
+    const files = (await listFiles(fs, root)).filter((path) =>
+        ![manifestPath, `${manifestPath}.tmp`].includes(`${root}/${path}`)
+        && (!include || matchesAny(path, include))
+        && !matchesAny(path, exclude));
+    const hashes = new Map<string, string>();
+    await runPool(files, concurrency, async (path) => {
+        hashes.set(path, await hashFile(fs, `${root}/${path}`));
+    });
+
+    const plan: ISyncPlan = { insert: [], replace: [], remove: [], unchanged: [] };
+    for (const path of files) {
+        const entry = state.files[path];
+        if (!entry) plan.insert.push(path);
+        else if (entry.hash !== hashes.get(path)) plan.replace.push(path);
+        else plan.unchanged.push(path);
+    }
+    plan.remove = Object.keys(state.files).filter((path) => !hashes.has(path)).sort();
+
+    const report: ISyncReport = { plan, dryRun, failed: [], tokens: 0 };
+    if (dryRun) return report;
+
+    let saving = Promise.resolve();
+    const save = () => saving = saving.then(() => writeManifest(fs, manifestPath, state));
+
+    const remove = async (path: string) => {
+        const res = await sdk.deleteResource({ ...options, collection_id, resource_id: state.files[path].resource_id });
+        const error = (res as IErrorMessage).error;
+        // already gone from the collection is as good as deleted
+        if (error && !(error instanceof NotFoundError)) throw error;
+        delete state.files[path];
+        await save();
+    };
+    const insert = async (path: string) => {
+        const res = await sdk.insertResource({ ...options, collection_id, resource: `${root}/${path}`, type: ResourceType.FILE });
+        if ((res as IErrorMessage).error) throw (res as IErrorMessage).error;
+        const inserted = res as IInsertResourceCollection;
+        if (!inserted?.success) throw new WetrocloudError("Resource was not inserted", { data: res });
+        report.tokens += inserted.token || 0;
+        state.files[path] = { hash: hashes.get(path)!, resource_id: inserted.resource_id, syncedAt: new Date().toISOString() };
+        await save();
+    };
+
+    const tasks: { path: string, action: ISyncProgress["action"] }[] = [
+        ...plan.remove.map((path) => ({ path, action: "remove" as const })),
+        ...plan.replace.map((path) => ({ path, action: "replace" as const })),
+        ...plan.insert.map((path) => ({ path, action: "insert" as const }))
+    ];
+    let completed = 0;
+
+    await runPool(tasks, concurrency, async ({ path, action }) => {
+        let error: WetrocloudError | undefined;
+        try {
+            if (action !== "insert") await remove(path);
+            if (action !== "remove") await insert(path);
+        } catch (e) {
+            error = errorMessage(e);
+            if (error instanceof RequestAbortedError) throw error;
+            report.failed.push({ path, action, error });
+        }
+        onProgress?.({ path, action, completed: ++completed, total: tasks.length, ...(error ? { error } : {}) });
+    }, () => !!options.signal?.aborted);
+
+    await saving;
+    return report;
+}
+
+/** Renders a plan as one `+` (insert), `~` (replace) or `-` (remove) line per file and a summary. */
+export function formatSyncPlan({ insert, replace, remove, unchanged }: ISyncPlan): string {
+    return [
+        ...insert.map((path) => `+ ${path}`),
+        ...replace.map((path) => `~ ${path}`),
+        ...remove.map((path) => `- ${path}`),
+        `${insert.length} to insert, ${replace.length} to replace, ${remove.length} to remove, ${unchanged.length} unchanged`
+    ].join("\n");
+}
+
+async function readManifest(fs: Fs, path: string, collection_id: string): Promise<ISyncManifest> {
+    let text: string;
+    try {
+        text = await fs.readFile(path, "utf8");
+    } catch (e) {
+        if ((e as { code?: string }).code === "ENOENT") return { version: 1, collection_id, files: {} };
+        throw localFileError(e, path);
+    }
+
+    const manifest = JSON.parse(text) as ISyncManifest;
+    if (manifest.collection_id !== collection_id) {
+        throw new ValidationError(`${path} tracks collection "${manifest.collection_id}"; pass another \`manifest\` to sync "${collection_id}"`);
+    }
+    return manifest;
+}
+
+/** Writes to a temporary file first, so a crash never leaves a truncated manifest. */
+async function writeManifest(fs: Fs, path: string, manifest: ISyncManifest) {
+    const temporary = `${path}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(manifest, null, 2));
+    await fs.rename(temporary, path);
+}
+
+/** Every file below `root`, as sorted `/`-separated relative paths. */
+async function listFiles(fs: Fs, root: string, prefix = ""): Promise<string[]> {
+    const files: string[] = [];
+    const dir = prefix ? `${root}/${prefix}` : root;
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch((e) => { throw localFileError(e, dir); });
+    for (const entry of entries) {
+        const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) files.push(...await listFiles(fs, root, path));
+        else if (entry.isFile()) files.push(path);
+    }
+    return files.sort();
+}
+
+async function hashFile(fs: Fs, path: string): Promise<string> {
+    const bytes = await fs.readFile(path).catch((e) => { throw localFileError(e, path); });
+    const digest = await globalThis.crypto.subtle.digest("SHA-256", bytes);
+    return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,245 @@
+import type { WetrocloudError } from "./errors.js";
+import { IMiddleware, IRequestContext } from "./types/index.js";
+
+type Attributes = Record<string, string | number | boolean>;
+
+/** The parts of an OpenTelemetry `Span` the SDK uses. */
+export interface SpanLike {
+    setAttribute(key: string, value: string | number | boolean): unknown,
+    addEvent(name: string, attributes?: Attributes): unknown,
+    setStatus(status: { code: number, message?: string }): unknown,
+    recordException(exception: Error): unknown,
+    end(): void
+}
+
+/** The parts of an OpenTelemetry `Tracer` the SDK uses. */
+export interface TracerLike {
+    startSpan(name: string, options?: { kind?: number, attributes?: Attributes }, context?: unknown): SpanLike
+}
+
+/** The parts of an OpenTelemetry `Meter` the SDK uses. */
+export interface MeterLike {
+    createHistogram(name: string, options?: { description?: string, unit?: string }): {
+        record(value: number, attributes?: Attributes): void
+    }
+}
+
+export interface ITelemetryOptions {
+    /** Tracer to create spans with. Defaults to the global tracer of `@opentelemetry/api`. */
+    tracer?: TracerLike,
+    /** Meter to record histograms with. Defaults to the global meter of `@opentelemetry/api`. */
+    meter?: MeterLike
+}
+
+const INSTRUMENTATION_NAME = "wetrocloud-sdk";
+// numeric values of SpanKind and SpanStatusCode, so the API package stays optional
+const SPAN_KIND_INTERNAL = 0;
+const SPAN_KIND_CLIENT = 2;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+// a variable specifier keeps bundlers from requiring the optional package
+const OTEL_API_MODULE = "@opentelemetry/api";
+
+let otelApi: Promise<any> | undefined;
+
+/** Resolves to `@opentelemetry/api`, or `undefined` when it is not installed. */
+function loadOpenTelemetry(): Promise<any> {
+    return otelApi ??= import(OTEL_API_MODULE).catch(() => undefined);
+}
+
+interface SpanState {
+    span: SpanLike,
+    /** The HTTP attempt in progress, a child of `span`. */
+    attempt?: SpanLike,
+    chunks: number
+}
+
+/**
+ * Middleware creating one OpenTelemetry span per API call, named after the
+ * `Wetrocloud` method (`wetrocloud.queryResource`, ...), with a client span per
+ * HTTP attempt as its children, and recording latency and token histograms.
+ * Without a tracer, a meter or `@opentelemetry/api` installed it does nothing;
+ * without `@opentelemetry/api` attempts are only recorded as events.
+ */
+export function createTelemetryMiddleware({ tracer, meter }: ITelemetryOptions = {}): IMiddleware {
+    const spans = new WeakMap<IRequestContext, SpanState>();
+    let instruments: Promise<{
+        api?: any,
+        tracer?: TracerLike,
+        duration?: ReturnType<MeterLike["createHistogram"]>,
+        tokens?: ReturnType<MeterLike["createHistogram"]>
+    }> | undefined;
+
+    const resolveInstruments = () => instruments ??= (async () => {
+        // also needed with a given tracer, to parent the attempt spans
+        const api = await loadOpenTelemetry();
+        const resolvedMeter: MeterLike | undefined = meter ?? api?.metrics.getMeter(INSTRUMENTATION_NAME);
+        return {
+            api,
+            tracer: tracer ?? api?.trace.getTracer(INSTRUMENTATION_NAME),
+            duration: resolvedMeter?.createHistogram("wetrocloud.client.duration", {
+                description: "Duration of WetroCloud API calls, retries and streaming included",
+                unit: "ms"
+            }),
+            tokens: resolvedMeter?.createHistogram("wetrocloud.client.tokens", {
+                description: "Tokens used per WetroCloud API call",
+                unit: "{token}"
+            })
+        };
+    })();
+
+    const startAttempt = async (context: IRequestContext, state: SpanState) => {
+        const { api, tracer } = await resolveInstruments();
+        if (!api || !tracer) return;
+        state.attempt = tracer.startSpan(`${context.method} ${context.url}`, {
+            kind: SPAN_KIND_CLIENT,
+            attributes: { "http.request.method": context.method, "wetrocloud.endpoint": context.url, "wetrocloud.attempt": context.attempt }
+        }, api.trace.setSpan(api.context.active(), state.span));
+    };
+
+    const endAttempt = (state: SpanState | undefined, { status, error }: { status?: number, error?: WetrocloudError }) => {
+        const attempt = state?.attempt;
+        if (!attempt) return;
+        state.attempt = undefined;
+        if (status !== undefined) attempt.setAttribute("http.response.status_code", status);
+        if (error) {
+            attempt.setAttribute("error.type", error.name);
+            attempt.setStatus({ code: STATUS_ERROR, message: error.message });
+        }
+        attempt.end();
+    };
+
+    const finish = async (context: IRequestContext, { tokens, error }: { tokens?: number, error?: WetrocloudError }) => {
+        const state = spans.get(context);
+        const { duration, tokens: tokenHistogram } = await resolveInstruments();
+        const attributes: Attributes = { "wetrocloud.operation": operationName(context) };
+        if (error) attributes["error.type"] = error.name;
+
+        duration?.record(Date.now() - context.startedAt, attributes);
+        if (!error && tokens !== undefined) tokenHistogram?.record(tokens, attributes);
+        if (!state) return;
+        spans.delete(context);
+
+        const { span } = state;
+        span.setAttribute("wetrocloud.retry_count", context.attempt);
+        if (tokens !== undefined) span.setAttribute("wetrocloud.tokens", tokens);
+        if (context.stream) span.setAttribute("wetrocloud.stream.chunks", state.chunks);
+        if (error) {
+            if (error.status !== undefined) span.setAttribute("http.response.status_code", error.status);
+            span.setAttribute("error.type", error.name);
+            span.recordException(error);
+            span.setStatus({ code: STATUS_ERROR, message: error.message });
+        } else {
+            if (context.status !== undefined) span.setAttribute("http.response.status_code", context.status);
+            span.setStatus({ code: STATUS_OK });
+        }
+        span.end();
+    };
+
+    return {
+        async onRequest(context) {
+            const existing = spans.get(context);
+            if (existing) {
+                existing.span.addEvent("retry", { "wetrocloud.attempt": context.attempt });
+                return startAttempt(context, existing);
+            }
+            const { tracer } = await resolveInstruments();
+            if (!tracer) return;
+
+            const attributes: Attributes = {
+                "wetrocloud.operation": operationName(context),
+                "wetrocloud.endpoint": context.url,
+                "http.request.method": context.method,
+                "wetrocloud.stream": context.stream
+            };
+            for (const [field, attribute] of [["collection_id", "wetrocloud.collection_id"], ["model", "wetrocloud.model"], ["type", "wetrocloud.resource_type"]]) {
+                const value = readField(context.data, field);
+                if (value) attributes[attribute] = value;
+            }
+            const state: SpanState = {
+                span: tracer.startSpan(`wetrocloud.${operationName(context)}`, { kind: SPAN_KIND_INTERNAL, attributes }),
+                chunks: 0
+            };
+            spans.set(context, state);
+            await startAttempt(context, state);
+        },
+        async onResponse(context, response) {
+            // a stream's attempt is over once its headers arrived; the call ends with the stream
+            endAttempt(spans.get(context), { status: context.status });
+            if (context.stream) return;
+            const { tokens, token } = (response || {}) as { tokens?: number, token?: number };
+            await finish(context, { tokens: tokens ?? token });
+        },
+        async onError(context, error, { willRetry }) {
+            endAttempt(spans.get(context), { status: error.status, error });
+            if (!willRetry) return finish(context, { error });
+            spans.get(context)?.span.addEvent("attempt_failed", {
+                "wetrocloud.attempt": context.attempt,
+                "error.type": error.name,
+                ...(error.status !== undefined ? { "http.response.status_code": error.status } : {})
+            });
+        },
+        onStreamChunk(context, chunk) {
+            const state = spans.get(context);
+            if (!state || chunk.done) return;
+            if (state.chunks++ === 0) {
+                state.span.setAttribute("wetrocloud.stream.time_to_first_chunk_ms", Date.now() - context.startedAt);
+            }
+        },
+        onStreamEnd(context, result) {
+            void finish(context, result);
+        }
+    };
+}
+
+/** Runs a `Wetrocloud` method that makes several requests inside a span of its own. */
+export type OperationTracer = <R>(operation: string, run: () => Promise<R>) => Promise<R>;
+
+/**
+ * Creates the span of a method that makes several requests (`wetrocloud.insertResources`, ...)
+ * and makes it the active context while the method runs, so the spans of its requests
+ * become its children. Parenting needs a context manager, which the OpenTelemetry Node SDK registers.
+ * A returned `{ message, error }` marks the span as failed, like a thrown error.
+ */
+export function createOperationTracer({ tracer }: ITelemetryOptions = {}): OperationTracer {
+    return async (operation, run) => {
+        const api = await loadOpenTelemetry();
+        const resolvedTracer: TracerLike | undefined = tracer ?? api?.trace.getTracer(INSTRUMENTATION_NAME);
+        if (!api || !resolvedTracer) return run();
+
+        const span = resolvedTracer.startSpan(`wetrocloud.${operation}`, {
+            kind: SPAN_KIND_INTERNAL,
+            attributes: { "wetrocloud.operation": operation }
+        });
+        const fail = (error: Error) => {
+            span.setAttribute("error.type", error.name);
+            span.recordException(error);
+            span.setStatus({ code: STATUS_ERROR, message: error.message });
+        };
+        try {
+            const result = await api.context.with(api.trace.setSpan(api.context.active(), span), run);
+            const error = (result as { error?: unknown } | undefined)?.error;
+            if (error instanceof Error) fail(error);
+            else span.setStatus({ code: STATUS_OK });
+            return result;
+        } catch (e) {
+            if (e instanceof Error) fail(e);
+            throw e;
+        } finally {
+            span.end();
+        }
+    };
+}
+
+function operationName(context: IRequestContext): string {
+    return context.operation || `${context.method} ${context.url}`;
+}
+
+function readField(data: unknown, field: string): string | undefined {
+    if (typeof FormData !== "undefined" && data instanceof FormData) {
+        const value = data.get(field);
+        return typeof value === "string" ? value : undefined;
+    }
+    const value = (data as Record<string, unknown> | undefined)?.[field];
+    return typeof value === "string" ? value : undefined;
+}
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import Wetrocloud from "../index.js";
+import { createMockClient, MockWetrocloudServer } from "../testing/index.js";
+import { IErrorMessage, IQueryResourceCollectionDynamic, IResponseStream } from '../types/index.js';
+import { RequestAbortedError, TimeoutError } from "../errors.js";
+
+const collection_id = "docs";
+
+let sdk: Wetrocloud;
+let server: MockWetrocloudServer;
+
+describe('cancellation', () => {
+    beforeEach(() => {
+        ({ sdk, server } = createMockClient());
+        server.addCollection(collection_id);
+    });
+
+    it('rejects with RequestAbortedError when the signal aborts, even without throwOnError', async () => {
+        server.respond("/data-extraction/", { body: {}, delayMs: 1000 });
+        const controller = new AbortController();
+
+        const pending = sdk.extract({ website_url: "https://example.com", json_schema: {}, signal: controller.signal });
+        setTimeout(() => controller.abort(), 10);
+
+        await expect(pending).rejects.toBeInstanceOf(RequestAbortedError);
+    });
+
+    it('does not send anything when the signal is already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(sdk.listCollections({ signal: controller.signal })).rejects.toBeInstanceOf(RequestAbortedError);
+        expect(server.requests).toHaveLength(0);
+    });
+
+    it('stops a streamed query mid-way', async () => {
+        const controller = new AbortController();
+        const stream = await sdk.queryResource({
+            collection_id,
+            request_query: "tell me a long story please",
+            signal: controller.signal
+        }) as AsyncIterable<IQueryResourceCollectionDynamic<string>>;
+
+        const received: unknown[] = [];
+        const consume = async () => {
+            for await (const chunk of stream) {
+                received.push(chunk);
+                controller.abort();
+            }
+        };
+
+        await expect(consume()).rejects.toBeInstanceOf(RequestAbortedError);
+        expect(received).toHaveLength(1);
+    });
+
+    it('lets the consumer break out of a stream', async () => {
+        const stream = await sdk.queryResource({ collection_id, request_query: "one two three" }) as IResponseStream;
+
+        for await (const _chunk of stream) break;
+
+        await expect(stream.finalResponse()).rejects.toBeInstanceOf(RequestAbortedError);
+    });
+
+    it('rejects with RequestAbortedError when aborted with a custom reason during a retry backoff', async () => {
+        ({ sdk, server } = createMockClient({ retry: { initialDelayMs: 1000, jitter: false } }));
+        server.fail("/collection/all/", { status: 503 });
+        const controller = new AbortController();
+
+        const pending = sdk.listCollections({ signal: controller.signal });
+        setTimeout(() => controller.abort(new Error("user navigated away")), 50);
+
+        const error = await pending.catch((e) => e);
+        expect(error).toBeInstanceOf(RequestAbortedError);
+        expect(error.cause).toEqual(new Error("user navigated away"));
+        expect(server.requests).toHaveLength(1);
+    });
+
+    it('cancels pending requests with cancelRequests()', async () => {
+        server.respond("/collection/all/", { body: { results: [] }, delayMs: 1000 });
+
+        const pending = sdk.listCollections();
+        setTimeout(() => sdk.cancelRequests(), 10);
+
+        await expect(pending).rejects.toBeInstanceOf(RequestAbortedError);
+    });
+
+    it('applies a per-call timeout', async () => {
+        ({ sdk, server } = createMockClient({ retry: false }));
+        server.respond("/collection/all/", { body: { results: [] }, delayMs: 1000 });
+
+        const res = await sdk.listCollections({ timeout: 10 }) as IErrorMessage;
+
+        expect(res.error).toBeInstanceOf(TimeoutError);
+    });
+});
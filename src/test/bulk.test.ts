@@ -0,0 +1,187 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import Wetrocloud from "../index.js";
+import { createMockClient, MockWetrocloudServer } from "../testing/index.js";
+import { IBulkInsertProgress, ICategorizeResult, ResourceType } from '../types/index.js';
+import { NotFoundError, ValidationError } from "../errors.js";
+
+const collection_id = "kb";
+
+let sdk: Wetrocloud;
+let server: MockWetrocloudServer;
+
+const texts = (n: number) => Array.from({ length: n }, (_, i) => ({
+    resource: `document number ${i}`,
+    type: ResourceType.TEXT,
+    metadata: { i }
+}));
+
+describe('insertResources', () => {
+    beforeEach(() => {
+        ({ sdk, server } = createMockClient({ retry: false }));
+        server.addCollection(collection_id);
+    });
+
+    it('inserts every resource and reports them in input order', async () => {
+        const report = await sdk.insertResources({ collection_id, resources: texts(5), concurrency: 2 });
+
+        expect(report.succeeded).toBe(5);
+        expect(report.failed).toBe(0);
+        expect(report.results.map((r) => r.metadata)).toEqual([0, 1, 2, 3, 4].map((i) => ({ i })));
+        expect(report.tokens).toBe(15);
+        expect(server.collections.get(collection_id)!.resources.size).toBe(5);
+    });
+
+    it('keeps going after a failure by default', async () => {
+        server.fail("/resource/insert/", { status: 400, body: { detail: "bad resource" } });
+
+        const report = await sdk.insertResources({ collection_id, resources: texts(3), concurrency: 1 });
+
+        expect(report.results[0].status).toBe("rejected");
+        expect(report.results[0].status === "rejected" && report.results[0].error).toBeInstanceOf(ValidationError);
+        expect(report.succeeded).toBe(2);
+    });
+
+    it('stops starting new inserts on the first error when asked to', async () => {
+        server.fail("/resource/insert/", { status: 404 });
+
+        const report = await sdk.insertResources({ collection_id, resources: texts(4), concurrency: 1, stopOnError: true });
+
+        expect(report.failed).toBe(1);
+        expect(report.skipped).toBe(3);
+        expect(report.results[0].status === "rejected" && report.results[0].error).toBeInstanceOf(NotFoundError);
+        expect(report.results.slice(1).every((r) => r.status === "skipped")).toBe(true);
+    });
+
+    it('reports progress after every item', async () => {
+        const events: IBulkInsertProgress[] = [];
+
+        await sdk.insertResources({ collection_id, resources: texts(3), onProgress: (p) => events.push(p) });
+
+        expect(events.map((e) => e.completed)).toEqual([1, 2, 3]);
+        expect(events[2].total).toBe(3);
+    });
+
+    it('collects failures even in throwOnError mode', async () => {
+        ({ sdk, server } = createMockClient({ retry: false, throwOnError: true }));
+
+        const report = await sdk.insertResources({ collection_id: "missing", resources: texts(2) });
+
+        expect(report.failed).toBe(2);
+    });
+});
+
+describe('categorizeResources', () => {
+    const categories = ["sport", "politics", "science"];
+    const prompt = "What is this article about?";
+    const articles = [
+        "the sport final went to extra time",
+        "politics as usual in parliament",
+        "a science team found a new planet",
+        "another sport result"
+    ].map((resource, i) => ({ resource, type: ResourceType.TEXT, metadata: { i } }));
+
+    beforeEach(() => {
+        ({ sdk, server } = createMockClient({ retry: false }));
+    });
+
+    it('labels every resource and counts them per category', async () => {
+        const report = await sdk.categorizeResources({ resources: articles, categories, prompt, concurrency: 2 });
+
+        expect(report.counts).toEqual({ sport: 2, politics: 1, science: 1 });
+        expect(report.unassigned).toBe(0);
+        expect(report.succeeded).toBe(4);
+        expect(report.results.map((r) => r.status === "fulfilled" && r.label)).toEqual(["sport", "politics", "science", "sport"]);
+        expect(report.tokens).toBe(22);
+        expect(JSON.parse(server.requests[0].body.json_schema)).toEqual({ label: "string" });
+    });
+
+    it('counts answers naming none of the categories as unassigned', async () => {
+        server.respond("/categorize/", { body: { response: { label: "Weather" }, tokens: 1, success: true } });
+
+        const report = await sdk.categorizeResources({ resources: articles.slice(0, 2), categories, prompt });
+
+        expect(report.unassigned).toBe(2);
+        expect(report.counts.sport).toBe(0);
+        expect(report.results[0].status === "fulfilled" && report.results[0].label).toBeNull();
+    });
+
+    it('reads the label from labelKey, ignoring case', async () => {
+        server.respond("/categorize/", { body: { response: { summary: "sport", topic: "SCIENCE" }, tokens: 1, success: true } });
+
+        const report = await sdk.categorizeResources({
+            resources: articles.slice(0, 1), categories, prompt, json_schema: { summary: "string", topic: "string" }, labelKey: "topic"
+        });
+
+        expect(report.counts.science).toBe(1);
+    });
+
+    it('reports failures and exports the report as CSV and JSON', async () => {
+        server.fail("/categorize/", { status: 400, body: { detail: "bad resource" } });
+
+        const report = await sdk.categorizeResources({ resources: articles.slice(0, 2), categories, prompt, concurrency: 1 });
+
+        expect(report.failed).toBe(1);
+        expect(report.results[0].status === "rejected" && report.results[0].error).toBeInstanceOf(ValidationError);
+        expect(report.toCSV().split("\n")).toEqual([
+            "index,resource,status,label,tokens,error,metadata",
+            `0,the sport final went to extra time,rejected,,,bad resource,"{""i"":0}"`,
+            `1,politics as usual in parliament,fulfilled,politics,5,,"{""i"":1}"`,
+            ""
+        ]);
+        const json = JSON.parse(JSON.stringify(report));
+        expect(json.failed).toBe(1);
+        expect(json.results[0].error).toMatchObject({ name: "ValidationError", message: "bad resource" });
+    });
+
+    it('streams results as they complete and returns the report', async () => {
+        server.respond("/categorize/", (req) => ({
+            delayMs: req.body.resource.startsWith("the sport") ? 30 : 0,
+            body: { response: { label: "sport" }, tokens: 1, success: true }
+        }));
+        const seen: ICategorizeResult[] = [];
+
+        const stream = sdk.streamCategorizeResources({ resources: articles.slice(0, 2), categories, prompt, concurrency: 2 });
+        let next;
+        while (!(next = await stream.next()).done) seen.push(next.value);
+
+        expect(seen.map((r) => r.index)).toEqual([1, 0]);
+        expect(next.value.counts.sport).toBe(2);
+    });
+
+    it('stops starting new calls when the loop is left early', async () => {
+        for await (const result of sdk.streamCategorizeResources({ resources: articles, categories, prompt, concurrency: 1 })) {
+            expect(result.index).toBe(0);
+            break;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 20));
+
+        // the next call may have started before the loop was left; it is aborted
+        expect(server.requests.filter((r) => r.path === "/categorize/").length).toBeLessThanOrEqual(2);
+    });
+
+    it('does not leave an unhandled rejection when onProgress throws after the loop was left', async () => {
+        const unhandled: unknown[] = [];
+        const onUnhandled = (reason: unknown) => unhandled.push(reason);
+        process.on("unhandledRejection", onUnhandled);
+
+        try {
+            const stream = sdk.streamCategorizeResources({
+                resources: articles, categories, prompt, concurrency: 1, onProgress: () => { throw new Error("progress failed"); }
+            });
+            for await (const _result of stream) break;
+            await new Promise((resolve) => setTimeout(resolve, 50));
+        } finally {
+            process.off("unhandledRejection", onUnhandled);
+        }
+
+        expect(unhandled).toEqual([]);
+    });
+
+    it('rejects when onProgress throws', async () => {
+        const stream = sdk.streamCategorizeResources({
+            resources: articles, categories, prompt, onProgress: () => { throw new Error("progress failed"); }
+        });
+
+        await expect((async () => { for await (const _result of stream); })()).rejects.toThrow("progress failed");
+    });
+});
@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import Wetrocloud from "../index.js";
+import { MemoryCacheStore } from "../cache.js";
+import { IJsonSchema } from "../schema.js";
+import { createMockClient, MockWetrocloudServer } from "../testing/index.js";
+import { ICacheStore, IStructuredResponse, ResourceType } from '../types/index.js';
+
+const collection_id = "kb";
+
+let sdk: Wetrocloud;
+let server: MockWetrocloudServer;
+
+const queries = () => server.requests.filter((r) => r.path.endsWith("/collection/query/")).length;
+
+describe('response cache', () => {
+    beforeEach(() => {
+        ({ sdk, server } = createMockClient({ cache: true }));
+        server.addCollection(collection_id);
+    });
+
+    it('answers identical queries from the cache without spending tokens', async () => {
+        const first = await sdk.queryResource({ collection_id, request_query: "what is this?", stream: false }) as IStructuredResponse<string>;
+        const second = await sdk.queryResource({ collection_id, request_query: "  what is this?  ", stream: false }) as IStructuredResponse<string>;
+
+        expect(queries()).toBe(1);
+        expect(first.cache).toMatchObject({ hit: false, age: 0 });
+        expect(second.cache).toMatchObject({ hit: true, key: first.cache!.key });
+        expect(second.response).toBe(first.response);
+        expect(sdk.usage.snapshot().calls).toBe(1);
+    });
+
+    it('keys on the normalized body, so json_schema key order does not matter', async () => {
+        await sdk.queryResource({ collection_id, request_query: "q", json_schema: { a: "string", b: "number" }, stream: false });
+        const res = await sdk.queryResource({ collection_id, request_query: "q", json_schema: { b: "number", a: "string" }, stream: false });
+        await sdk.queryResource({ collection_id, request_query: "q", json_schema: { a: "string" }, stream: false });
+        await sdk.queryResource({ collection_id, request_query: "q", model: "gpt-4o", json_schema: { a: "string" }, stream: false });
+
+        expect((res as IStructuredResponse<unknown>).cache?.hit).toBe(true);
+        expect(queries()).toBe(3);
+    });
+
+    it('invalidates a collection after inserts and deletes', async () => {
+        const ask = () => sdk.queryResource({ collection_id, request_query: "q", stream: false }) as Promise<IStructuredResponse<string>>;
+
+        await ask();
+        const inserted = await sdk.insertResource({ collection_id, resource: "new facts", type: ResourceType.TEXT }) as { resource_id: string };
+        expect((await ask()).cache?.hit).toBe(false);
+
+        await sdk.deleteResource({ collection_id, resource_id: inserted.resource_id });
+        expect((await ask()).cache?.hit).toBe(false);
+        expect((await ask()).cache?.hit).toBe(true);
+        expect(queries()).toBe(3);
+    });
+
+    it('does not store an answer when the collection is written to while it is fetched', async () => {
+        const store = new MemoryCacheStore();
+        ({ sdk, server } = createMockClient({ cache: { store } }));
+        server.addCollection(collection_id);
+        server.respond("/collection/query/", { body: { response: "before the insert", tokens: 1, success: true }, delayMs: 20 });
+
+        const pending = sdk.queryResource({ collection_id, request_query: "q", stream: false });
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        await sdk.insertResource({ collection_id, resource: "news", type: ResourceType.TEXT });
+
+        expect(await pending).toMatchObject({ response: "before the insert", cache: { hit: false } });
+        // only the collection version is stored
+        expect(store.size).toBe(1);
+    });
+
+    it('caches extract and categorize, and honours per-call control', async () => {
+        const extract = () => sdk.extract({ website_url: "https://example.com", json_schema: { title: "string" } });
+        await extract();
+        expect((await extract() as IStructuredResponse<unknown>).cache?.hit).toBe(true);
+
+        const categorize = (cache?: boolean) => sdk.categorize({
+            resource: "John Cena vs. The Rock", type: ResourceType.TEXT, json_schema: { label: "string" },
+            categories: ["wrestling", "football"], prompt: "Which sport?", cache
+        });
+        await categorize();
+        expect((await categorize(false) as IStructuredResponse<unknown>).cache).toBeUndefined();
+        expect(server.requests.filter((r) => r.path.endsWith("/categorize/")).length).toBe(2);
+    });
+
+    it('does not cache streams or failures', async () => {
+        ({ sdk, server } = createMockClient({ cache: true, retry: false }));
+        server.addCollection(collection_id);
+        server.fail("/collection/query/", { status: 500 }, 1);
+
+        expect(await sdk.queryResource({ collection_id, request_query: "q", stream: false })).toHaveProperty("message");
+        expect((await sdk.queryResource({ collection_id, request_query: "q", stream: false }) as IStructuredResponse<string>).cache?.hit).toBe(false);
+
+        for (let i = 0; i < 2; i++) {
+            for await (const _chunk of await sdk.queryResource({ collection_id, request_query: "q" }) as AsyncIterable<unknown>) { /* drain */ }
+        }
+        expect(queries()).toBe(4);
+    });
+
+    it('does not cache answers that fail schema validation', async () => {
+        const schema: IJsonSchema = { type: "object", properties: { price: { type: "number" } }, required: ["price"] };
+        const prices: unknown[] = ["5", 5];
+        server.respond("/data-extraction/", () => ({ body: { response: { price: prices.shift() }, tokens: 1, success: true } }));
+        const extract = () => sdk.extract({ website_url: "https://example.com", schema });
+
+        expect(await extract()).toHaveProperty("error");
+        expect(await extract()).toMatchObject({ response: { price: 5 }, cache: { hit: false } });
+        expect(await extract()).toMatchObject({ response: { price: 5 }, cache: { hit: true } });
+        expect(server.requests).toHaveLength(2);
+    });
+
+    it('uses a custom store and falls back to the API when it fails', async () => {
+        const calls: string[] = [];
+        const memory = new MemoryCacheStore();
+        let broken = false;
+        const store: ICacheStore = {
+            async get(key) { calls.push("get"); if (broken) throw new Error("redis down"); return memory.get(key); },
+            async set(key, value, ttl) { calls.push("set"); memory.set(key, value, ttl); },
+            async delete(key) { memory.delete(key); }
+        };
+        const warnings: string[] = [];
+        ({ sdk, server } = createMockClient({
+            cache: { store, ttl: 1000, namespace: "team-a" },
+            logger: { debug() { }, info() { }, warn(message) { warnings.push(message); }, error() { } }
+        }));
+
+        const first = await sdk.extract({ website_url: "https://example.com", json_schema: { title: "string" } });
+        expect((first as IStructuredResponse<unknown>).cache?.key.startsWith("wetrocloud:team-a:/data-extraction/:")).toBe(true);
+        expect(calls).toEqual(["get", "set"]);
+
+        broken = true;
+        const second = await sdk.extract({ website_url: "https://example.com", json_schema: { title: "string" } });
+        expect((second as IStructuredResponse<unknown>).cache?.hit).toBe(false);
+        expect(warnings).toContain("Response cache store failed");
+    });
+});
+
+describe('MemoryCacheStore', () => {
+    it('evicts the least recently used entry and expires entries', async () => {
+        const store = new MemoryCacheStore(2);
+        store.set("a", 1);
+        store.set("b", 2);
+        store.get("a");
+        store.set("c", 3);
+        expect([store.get("a"), store.get("b"), store.get("c")]).toEqual([1, undefined, 3]);
+
+        store.set("short", 1, 5);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(store.get("short")).toBeUndefined();
+    });
+});
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import Wetrocloud from "../index.js";
+import { ChatSession } from "../chatSession.js";
+import { createMockClient, MockWetrocloudServer } from "../testing/index.js";
+import { IResponseStream } from '../types/index.js';
+
+const collection_id = "docs";
+
+let sdk: Wetrocloud;
+let server: MockWetrocloudServer;
+
+const sentHistory = (n: number) => server.requests[n].body.chat_history;
+
+describe('ChatSession', () => {
+    beforeEach(() => {
+        ({ sdk, server } = createMockClient({ retry: false }));
+        server.addCollection(collection_id);
+    });
+
+    it('accumulates history and tokens across turns', async () => {
+        const session = sdk.chatSession({ collection_id, systemPrompt: "Be brief." });
+
+        await session.send("first question");
+        await session.send("second question");
+
+        expect(sentHistory(0)).toEqual([{ role: "system", content: "Be brief." }]);
+        expect(sentHistory(1)).toEqual([
+            { role: "system", content: "Be brief." },
+            { role: "user", content: "first question" },
+            { role: "system", content: "Mock answer to: first question" }
+        ]);
+        expect(session.history).toHaveLength(4);
+        expect(session.tokens).toBe(4);
+    });
+
+    it('records streamed replies once the stream completes', async () => {
+        const session = sdk.chatSession({ collection_id });
+
+        const stream = await session.send("tell me more", { stream: true }) as IResponseStream;
+        for await (const _chunk of stream) { /* drain */ }
+
+        expect(session.history[1]).toEqual({ role: "system", content: "Mock answer to: tell me more" });
+        expect(session.tokens).toBe(3);
+    });
+
+    it('leaves the history untouched when a call fails', async () => {
+        const session = sdk.chatSession({ collection_id });
+        server.fail("/collection/query/", { status: 500 });
+
+        await session.send("hello");
+
+        expect(session.history).toEqual([]);
+    });
+
+    it('drops the oldest turns beyond maxTurns', async () => {
+        const session = sdk.chatSession({ collection_id, maxTurns: 1, systemPrompt: "pinned" });
+
+        await session.send("one");
+        await session.send("two");
+
+        expect(session.history.map((m) => m.content)).toEqual(["two", "Mock answer to: two"]);
+        expect(session.chatHistory[0]).toEqual({ role: "system", content: "pinned" });
+    });
+
+    it('summarizes dropped turns when asked to', async () => {
+        const session = sdk.chatSession({
+            collection_id,
+            maxTurns: 1,
+            summarize: (dropped) => `talked about ${dropped[0].content}`
+        });
+
+        await session.send("one");
+        await session.send("two");
+        await session.send("three");
+
+        expect(sentHistory(2)[0].content).toContain("talked about one");
+    });
+
+    it('round-trips through toJSON / fromJSON', async () => {
+        const session = sdk.chatSession({ collection_id, maxTurns: 5 });
+        await session.send("remember me");
+
+        const restored = ChatSession.fromJSON(sdk, JSON.stringify(session));
+        await restored.send("do you?");
+
+        expect(restored.tokens).toBe(session.tokens + 2);
+        expect(sentHistory(1)).toEqual(session.history);
+        expect(restored.maxTurns).toBe(5);
+    });
+});
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtemp, mkdir, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import Wetrocloud from "../index.js";
+import { run } from "../cli/run.js";
+import { expandGlob } from "../cli/files.js";
+import { globToRegExp } from "../glob.js";
+import { loadProfile } from "../cli/profile.js";
+import { createMockClient, MockWetrocloudServer } from "../testing/index.js";
+import { IWetrocloudOptions } from '../types/index.js';
+
+let sdk: Wetrocloud;
+let server: MockWetrocloudServer;
+let dir: string;
+
+async function cli(argv: string[], { stdin = [] as string[], env = { WETROCLOUD_API_KEY: "key" } as Record<string, string> } = {}) {
+    let stdout = "", stderr = "";
+    const clientOptions: IWetrocloudOptions[] = [];
+    const code = await run(argv, {
+        stdout: { write: (text: string) => stdout += text },
+        stderr: { write: (text: string) => stderr += text },
+        stdin: Readable.from(stdin),
+        env: { WETROCLOUD_CONFIG: join(dir, "missing.json"), ...env },
+        createClient: (options) => {
+            clientOptions.push(options);
+            return sdk;
+        }
+    });
+    return { code, stdout, stderr, clientOptions };
+}
+
+describe('wetrocloud CLI', () => {
+    beforeEach(async () => {
+        ({ sdk, server } = createMockClient({ throwOnError: true }));
+        server.addCollection("docs");
+        dir = await mkdtemp(join(tmpdir(), "wetrocloud-cli-"));
+    });
+
+    it('manages collections, with json output for piping', async () => {
+        expect((await cli(["collections", "create", "notes"])).stdout).toBe("Created notes\n");
+
+        const listed = await cli(["collections", "list", "--output", "json"]);
+        expect(JSON.parse(listed.stdout).map((c: { collection_id: string }) => c.collection_id).sort()).toEqual(["docs", "notes"]);
+
+        expect((await cli(["collections", "delete", "notes"])).code).toBe(0);
+        expect([...server.collections.keys()]).toEqual(["docs"]);
+    });
+
+    it('inserts URLs, text and files matched by a glob', async () => {
+        await mkdir(join(dir, "guides"));
+        await writeFile(join(dir, "a.md"), "alpha");
+        await writeFile(join(dir, "guides", "b.md"), "beta");
+        await writeFile(join(dir, "c.txt"), "gamma");
+
+        const { code, stdout, stderr } = await cli(["resources", "insert", "docs", "https://example.com", "some plain text", `${dir}/**/*.md`]);
+
+        expect(code).toBe(0);
+        expect(stdout).toMatch(/^Inserted 4 of 4 resources/);
+        expect(stderr).toContain("[4/4]");
+        const inserted = server.requests.filter((r) => r.path.endsWith("/resource/insert/")).map((r) => r.body.type);
+        expect(inserted.sort()).toEqual(["file", "file", "text", "web"]);
+    });
+
+    it('streams query answers and reads --json-schema from a file', async () => {
+        const streamed = await cli(["query", "docs", "what", "is", "this?"]);
+        expect(streamed.stdout).toBe("Mock answer to: what is this?\n");
+        expect(streamed.stderr).toBe("(3 tokens)\n");
+
+        await writeFile(join(dir, "schema.json"), JSON.stringify({ title: "string" }));
+        const structured = await cli(["query", "docs", "title?", "--json-schema", join(dir, "schema.json"), "-o", "json"]);
+        expect(JSON.parse(structured.stdout)).toMatchObject({ response: { title: "string" }, success: true });
+    });
+
+    it('syncs a directory, printing the plan on --dry-run', async () => {
+        await writeFile(join(dir, "a.md"), "alpha");
+        await writeFile(join(dir, "b.txt"), "beta");
+
+        const preview = await cli(["sync", "docs", dir, "--include", "*.md", "--dry-run"]);
+        expect(preview.stdout).toBe("+ a.md\n1 to insert, 0 to replace, 0 to remove, 0 unchanged\n");
+
+        const synced = await cli(["sync", "docs", dir, "--include", "*.md"]);
+        expect(synced.stdout).toMatch(/^Synced .*: 1 inserted, 0 replaced, 0 removed, 0 failed/);
+        expect(synced.stderr).toBe("[1/1] insert a.md\n");
+    });
+
+    it('chats with history until /exit', async () => {
+        const { stdout } = await cli(["chat", "docs", "--no-stream"], { stdin: ["hello\n", "/clear\n", "again\n", "/exit\n", "ignored\n"] });
+
+        expect(stdout).toBe("Mock answer to: hello\nMock answer to: again\n");
+        const histories = server.requests.filter((r) => r.path.endsWith("/collection/query/")).map((r) => r.body.chat_history);
+        expect(histories).toEqual([[], []]);
+    });
+
+    it('runs categorize, extract, generate and image-to-text', async () => {
+        expect((await cli(["categorize", "a wrestling match", "--categories", "football, wrestling", "--prompt", "Sport?"])).stdout)
+            .toBe(JSON.stringify({ category: "wrestling" }, null, 2) + "\n");
+
+        await writeFile(join(dir, "schema.json"), JSON.stringify({ title: "string" }));
+        expect((await cli(["extract", "https://example.com", "--json-schema", join(dir, "schema.json")])).code).toBe(0);
+        expect((await cli(["generate", "Say", "hi", "-m", "llama", "--no-stream"])).stdout).toBe("Mock completion for: Say hi\n");
+        expect((await cli(["image-to-text", "https://example.com/a.png", "What", "is", "it?"])).stdout)
+            .toBe("Mock description of https://example.com/a.png\n");
+    });
+
+    it('reports API failures with exit code 1 and wrong arguments with exit code 2', async () => {
+        const failed = await cli(["query", "missing", "hi", "--no-stream"]);
+        expect(failed).toMatchObject({ code: 1, stderr: expect.stringMatching(/^NotFoundError: /) });
+
+        expect((await cli(["extract", "https://example.com"])).code).toBe(2);
+        expect((await cli(["query", "--bogus"])).code).toBe(2);
+        expect((await cli(["frobnicate"])).stderr).toContain('Unknown command "frobnicate"');
+        expect((await cli(["collections", "list"], { env: {} })).stderr).toContain("No API key");
+    });
+
+    it('reads the API key from a config profile, letting the environment win', async () => {
+        const config = join(dir, "config.json");
+        await writeFile(config, JSON.stringify({ default: { apiSecret: "from-default" }, staging: { apiSecret: "from-staging", baseURL: "https://staging" } }));
+
+        const { clientOptions } = await cli(["collections", "list", "--profile", "staging"], { env: { WETROCLOUD_CONFIG: config } });
+        expect(clientOptions[0]).toMatchObject({ apiSecret: "from-staging", baseURL: "https://staging" });
+
+        const fromEnv = await cli(["collections", "list"], { env: { WETROCLOUD_CONFIG: config, WETROCLOUD_API_KEY: "from-env" } });
+        expect(fromEnv.clientOptions[0].apiSecret).toBe("from-env");
+
+        await expect(loadProfile("prod", { WETROCLOUD_CONFIG: config })).rejects.toThrow('Profile "prod" not found');
+    });
+});
+
+describe('glob expansion', () => {
+    it('matches *, ** and ? like a shell', async () => {
+        expect(globToRegExp("**/*.md").test("a/b/c.md")).toBe(true);
+        expect(globToRegExp("**/*.md").test("c.md")).toBe(true);
+        expect(globToRegExp("*.md").test("a/c.md")).toBe(false);
+        expect(globToRegExp("file?.[tj]s").test("file1.ts")).toBe(true);
+
+        dir = await mkdtemp(join(tmpdir(), "wetrocloud-glob-"));
+        await mkdir(join(dir, "sub"));
+        await mkdir(join(dir, ".hidden"));
+        await writeFile(join(dir, "a.md"), "a");
+        await writeFile(join(dir, "sub", "b.md"), "b");
+        await writeFile(join(dir, ".hidden", "c.md"), "c");
+
+        expect(await expandGlob("*.md", dir)).toEqual([join(".", "a.md")]);
+        expect(await expandGlob(`${dir}/**/*.md`)).toEqual([join(dir, "a.md"), join(dir, "sub", "b.md")]);
+    });
+});
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import Wetrocloud, { Collection } from "../index.js";
+import { createMockClient, MockWetrocloudServer } from "../testing/index.js";
+import { IErrorMessage, IInsertResourceCollection, ResourceType } from '../types/index.js';
+import { ServerError } from "../errors.js";
+
+const collection_id = "kb";
+
+let sdk: Wetrocloud;
+let server: MockWetrocloudServer;
+
+describe('Collection', () => {
+    beforeEach(() => {
+        ({ sdk, server } = createMockClient({ retry: false }));
+        server.addCollection(collection_id);
+    });
+
+    it('forwards every call with its collection id', async () => {
+        const kb = sdk.collection(collection_id);
+
+        const inserted = await kb.insert({ resource: "some text", type: ResourceType.TEXT }) as IInsertResourceCollection;
+        const answer = await kb.query({ request_query: "what?", stream: false });
+        const chat = await kb.chat({ message: "hi" });
+        await kb.deleteResource({ resource_id: inserted.resource_id });
+        await kb.delete();
+
+        expect(answer).toMatchObject({ success: true, response: "Mock answer to: what?" });
+        expect(chat).toMatchObject({ success: true });
+        expect(server.requests.map((r) => r.body.collection_id)).toEqual(Array(5).fill(collection_id));
+        expect(server.requests[2].body.chat_history).toEqual([]);
+        expect(server.collections.has(collection_id)).toBe(false);
+    });
+
+    it('ensureCollection returns an existing collection without creating it', async () => {
+        const kb = await sdk.ensureCollection(collection_id);
+
+        expect(kb).toBeInstanceOf(Collection);
+        expect(server.requests.map((r) => r.path)).toEqual(["/collection/all/"]);
+    });
+
+    it('ensureCollection creates a missing collection', async () => {
+        const notes = await sdk.ensureCollection("notes") as Collection;
+
+        expect(notes.collection_id).toBe("notes");
+        expect(server.collections.has("notes")).toBe(true);
+    });
+
+    it('ensureCollection tolerates a collection created concurrently', async () => {
+        const thrower = createMockClient({ retry: false, throwOnError: true });
+        thrower.server.respond("/collection/create/", (_req, mock) => {
+            mock.addCollection("notes");
+            return { status: 400, body: { detail: "Collection already exists" } };
+        });
+
+        await expect(thrower.sdk.ensureCollection("notes")).resolves.toBeInstanceOf(Collection);
+    });
+
+    it('ensureCollection reports failures', async () => {
+        server.fail("/collection/create/");
+
+        const res = await sdk.ensureCollection("notes") as IErrorMessage;
+
+        expect(res.error).toBeInstanceOf(ServerError);
+    });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from '@jest/globals';
+import Wetrocloud from "../index.js";
+import { TimeoutError } from "../errors.js";
+import { IErrorMessage, IListCollection, IQueryResourceCollectionDynamic } from '../types/index.js';
+
+const fakeFetch = (body: string, status = 200) => {
+    const calls: { url: string, init: RequestInit }[] = [];
+    const fetchImpl = (async (url: string, init: RequestInit) => {
+        calls.push({ url, init });
+        return new Response(body, { status, headers: { "content-type": "application/json" } });
+    }) as unknown as typeof fetch;
+    return { calls, fetchImpl };
+};
+
+describe('client configuration', () => {
+    it('applies baseURL, apiVersion, referrer and headers', async () => {
+        const { calls, fetchImpl } = fakeFetch(JSON.stringify({ results: [] }));
+        const sdk = new Wetrocloud({
+            apiSecret: "secret",
+            baseURL: "http://localhost:8000/",
+            apiVersion: "v2",
+            referrer: "my_app",
+            userAgent: "my-agent/1.0",
+            headers: { "X-Team": "search" },
+            fetch: fetchImpl
+        });
+
+        const collections = await sdk.listCollections();
+
+        expect(collections as IListCollection[]).toEqual([]);
+        expect(calls[0].url).toBe("http://localhost:8000/v2/collection/all/?referrer=my_app");
+        expect(calls[0].init.headers).toMatchObject({
+            Authorization: "Token secret",
+            "User-Agent": "my-agent/1.0",
+            "X-Team": "search"
+        });
+    });
+
+    it('reads the api secret from WETROCLOUD_API_KEY', () => {
+        process.env.WETROCLOUD_API_KEY = "from-env";
+        try {
+            expect(() => new Wetrocloud()).not.toThrow();
+        } finally {
+            delete process.env.WETROCLOUD_API_KEY;
+        }
+        expect(() => new Wetrocloud()).toThrow("apiSecret is required!");
+    });
+
+    it('streams newline-delimited JSON through fetch', async () => {
+        const { fetchImpl } = fakeFetch('{"response":"Hel"}\n{"response":"lo"}\n');
+        const sdk = new Wetrocloud({ apiSecret: "secret", fetch: fetchImpl });
+
+        const stream = await sdk.queryResource({ collection_id: "c1", request_query: "hi" }) as AsyncIterable<IQueryResourceCollectionDynamic<string>>;
+        const chunks = [];
+        for await (const chunk of stream) chunks.push(chunk.response);
+
+        expect(chunks).toEqual(["Hel", "lo", ""]);
+    });
+
+    it('times out a response whose body stalls', async () => {
+        const fetchImpl = (async (_url: string, init: RequestInit) => new Response(new ReadableStream({
+            start(controller) {
+                controller.enqueue(new TextEncoder().encode('{"results":'));
+                init.signal!.addEventListener("abort", () => controller.error(init.signal!.reason));
+            }
+        }))) as unknown as typeof fetch;
+        const sdk = new Wetrocloud({ apiSecret: "secret", fetch: fetchImpl, retry: false, logLevel: "silent" });
+
+        const res = await sdk.listCollections({ timeout: 20 }) as IErrorMessage;
+
+        expect(res.error).toBeInstanceOf(TimeoutError);
+    });
+
+    it('defaults to the global fetch on edge runtimes and decodes split UTF-8 chunks', async () => {
+        const bytes = new TextEncoder().encode('{"response":"café"}\n');
+        const split = bytes.indexOf(0xc3) + 1; // inside the two-byte "é"
+        const calls: string[] = [];
+        const originalFetch = globalThis.fetch;
+        const navigator = Object.getOwnPropertyDescriptor(globalThis, "navigator");
+        Object.defineProperty(globalThis, "navigator", { value: { userAgent: "Cloudflare-Workers" }, configurable: true });
+        globalThis.fetch = (async (url: string) => {
+            calls.push(url);
+            return new Response(new ReadableStream({
+                start(controller) {
+                    controller.enqueue(bytes.slice(0, split));
+                    controller.enqueue(bytes.slice(split));
+                    controller.close();
+                }
+            }));
+        }) as unknown as typeof fetch;
+
+        try {
+            const sdk = new Wetrocloud({ apiSecret: "secret" });
+            const stream = await sdk.queryResource({ collection_id: "c1", request_query: "hi" }) as AsyncIterable<IQueryResourceCollectionDynamic<string>>;
+            const chunks = [];
+            for await (const chunk of stream) chunks.push(chunk.response);
+
+            expect(calls).toEqual(["https://api.wetrocloud.com/v1/collection/query/?referrer=node_sdk"]);
+            expect(chunks).toEqual(["café", ""]);
+        } finally {
+            globalThis.fetch = originalFetch;
+            if (navigator) Object.defineProperty(globalThis, "navigator", navigator);
+            else delete (globalThis as { navigator?: unknown }).navigator;
+        }
+    });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+    AuthenticationError, NetworkError, NotFoundError, RateLimitError,
+    ServerError, TimeoutError, ValidationError, WetrocloudError
+} from "../errors.js";
+import { errorMessage } from "../utils.js";
+
+const httpError = (status: number, data: unknown, headers: Record<string, string> = {}) => ({
+    isAxiosError: true,
+    message: `Request failed with status code ${status}`,
+    response: { status, data, headers }
+});
+
+describe('errorMessage', () => {
+    it('maps HTTP statuses to typed errors', () => {
+        expect(errorMessage(httpError(400, { detail: "bad" }))).toBeInstanceOf(ValidationError);
+        expect(errorMessage(httpError(401, { detail: "nope" }))).toBeInstanceOf(AuthenticationError);
+        expect(errorMessage(httpError(404, {}))).toBeInstanceOf(NotFoundError);
+        expect(errorMessage(httpError(503, "down"))).toBeInstanceOf(ServerError);
+    });
+
+    it('keeps status, payload and request id', () => {
+        const error = errorMessage(httpError(422, { message: "collection_id is required" }, { "x-request-id": "req_1" }));
+        expect(error.message).toBe("collection_id is required");
+        expect(error.status).toBe(422);
+        expect(error.data).toEqual({ message: "collection_id is required" });
+        expect(error.requestId).toBe("req_1");
+    });
+
+    it('reads Retry-After on rate limits', () => {
+        const error = errorMessage(httpError(429, {}, { "retry-after": "2" })) as RateLimitError;
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect(error.retryAfter).toBe(2000);
+    });
+
+    it('distinguishes timeouts from other network failures', () => {
+        expect(errorMessage({ isAxiosError: true, code: "ECONNABORTED", message: "timeout of 10ms exceeded" })).toBeInstanceOf(TimeoutError);
+        expect(errorMessage({ isAxiosError: true, code: "ECONNRESET", message: "socket hang up" })).toBeInstanceOf(NetworkError);
+    });
+
+    it('reports local file failures as ValidationErrors naming the file, not network errors', () => {
+        const enoent = Object.assign(new Error("ENOENT: no such file or directory, stat './missing.pdf'"), {
+            code: "ENOENT", syscall: "stat", path: "./missing.pdf"
+        });
+
+        const error = errorMessage(enoent);
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.message).toBe('Cannot read "./missing.pdf": no such file or directory');
+        expect(errorMessage({ code: "EWHATEVER", message: "not from a transport" })).not.toBeInstanceOf(NetworkError);
+    });
+
+    it('passes WetrocloudErrors through', () => {
+        const error = new WetrocloudError("already typed");
+        expect(errorMessage(error)).toBe(error);
+    });
+});
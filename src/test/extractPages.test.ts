@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import Wetrocloud from "../index.js";
+import { createMockClient, MockWetrocloudServer } from "../testing/index.js";
+import { IErrorMessage, IExtractPagesReport } from '../types/index.js';
+import { NetworkError, ServerError, ValidationError } from "../errors.js";
+
+let sdk: Wetrocloud;
+let server: MockWetrocloudServer;
+
+const json_schema = [{ name: "string", price: 0 }];
+
+/** Lists `count` products on every page but the ones in `empty`. */
+function catalogue(count: number, empty: string[] = []) {
+    server.respond("/data-extraction/", (req) => ({
+        body: {
+            response: empty.includes(req.body.website) ? [] : Array.from({ length: count }, (_, i) => ({ name: `${req.body.website} #${i}`, price: i })),
+            tokens: 10,
+            success: true
+        }
+    }));
+}
+
+const extracted = (website: string) => server.requests.filter((r) => r.path === "/data-extraction/").map((r) => r.body.website).includes(website);
+
+function sitemapFetch(files: Record<string, string>): typeof fetch {
+    return (async (url: string) => files[url] === undefined
+        ? new Response("missing", { status: 404 })
+        : new Response(files[url])) as typeof fetch;
+}
+
+describe('extractPages', () => {
+    beforeEach(() => {
+        ({ sdk, server } = createMockClient({ retry: false }));
+    });
+
+    it('merges the records of every page, tagged with their source, in page order', async () => {
+        catalogue(2);
+
+        const report = await sdk.extractPages({
+            urls: ["https://shop.example/a", "https://shop.example/b", "https://shop.example/a#reviews"],
+            json_schema,
+            concurrency: 2
+        }) as IExtractPagesReport<{ name: string, price: number }>;
+
+        expect(report.pages.map((p) => p.url)).toEqual(["https://shop.example/a", "https://shop.example/b"]);
+        expect(report.records.map((r) => r.source_url)).toEqual([
+            "https://shop.example/a", "https://shop.example/a", "https://shop.example/b", "https://shop.example/b"
+        ]);
+        expect(report.records[3].data).toEqual({ name: "https://shop.example/b #1", price: 1 });
+        expect(report.tokens).toBe(20);
+    });
+
+    it('reports failed pages without stopping the others', async () => {
+        catalogue(1);
+        server.fail("/data-extraction/", { status: 503 });
+
+        const report = await sdk.extractPages({ urls: ["https://shop.example/a", "https://shop.example/b"], json_schema, concurrency: 1 });
+
+        expect((report as IExtractPagesReport<unknown>).failed).toBe(1);
+        const [first, second] = (report as IExtractPagesReport<unknown>).pages;
+        expect(first.status === "rejected" && first.error).toBeInstanceOf(ServerError);
+        expect(second.status).toBe("fulfilled");
+        expect((report as IExtractPagesReport<unknown>).records).toHaveLength(1);
+    });
+
+    it('reads the pages from a sitemap index', async () => {
+        catalogue(1);
+
+        const report = await sdk.extractPages({
+            sitemap: "https://shop.example/sitemap.xml",
+            filter: (url) => url.includes("/products/"),
+            json_schema,
+            fetch: sitemapFetch({
+                "https://shop.example/sitemap.xml": `<?xml version="1.0"?>
+                    <sitemapindex><sitemap><loc>https://shop.example/products.xml</loc></sitemap></sitemapindex>`,
+                "https://shop.example/products.xml": `<urlset>
+                    <url><loc>https://shop.example/products/1?color=red&amp;size=m</loc></url>
+                    <url><loc><![CDATA[https://shop.example/products/2]]></loc></url>
+                    <url><loc>https://shop.example/about</loc></url>
+                </urlset>`
+            })
+        }) as IExtractPagesReport<unknown>;
+
+        expect(report.pages.map((p) => p.url)).toEqual([
+            "https://shop.example/products/1?color=red&size=m",
+            "https://shop.example/products/2"
+        ]);
+    });
+
+    it('fails the job when the sitemap cannot be downloaded', async () => {
+        const res = await sdk.extractPages({
+            sitemap: "https://shop.example/sitemap.xml",
+            json_schema,
+            fetch: (async () => { throw new TypeError("fetch failed"); }) as typeof fetch
+        }) as IErrorMessage;
+
+        expect(res.error).toBeInstanceOf(NetworkError);
+    });
+
+    it('follows a pagination pattern and stops after the first empty page', async () => {
+        catalogue(3, ["https://shop.example/list?page=3"]);
+
+        const report = await sdk.extractPages({
+            start_url: "https://shop.example/list",
+            pagination: { pattern: "https://shop.example/list?page={page}", to: 10 },
+            json_schema,
+            concurrency: 1
+        }) as IExtractPagesReport<unknown>;
+
+        expect(report.records).toHaveLength(6);
+        expect(report.succeeded).toBe(3);
+        expect(report.skipped).toBe(7);
+        expect(extracted("https://shop.example/list?page=4")).toBe(false);
+    });
+
+    it('rejects a pagination pattern without placeholder', async () => {
+        const res = await sdk.extractPages({ pagination: { pattern: "https://shop.example/list", to: 3 }, json_schema }) as IErrorMessage;
+
+        expect(res.error).toBeInstanceOf(ValidationError);
+    });
+});
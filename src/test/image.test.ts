@@ -0,0 +1,130 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import Wetrocloud from "../index.js";
+import { createMockClient, MockWetrocloudServer } from "../testing/index.js";
+import { IErrorMessage, IGenericResponse, IImageToText } from '../types/index.js';
+import { sniffImageType } from "../image.js";
+import { ValidationError } from "../errors.js";
+
+let sdk: Wetrocloud;
+let server: MockWetrocloudServer;
+let dir: string;
+
+const PNG = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+const JPEG = Uint8Array.from([0xff, 0xd8, 0xff, 0xe0, 4, 5, 6]);
+const sentImage = () => server.requests[server.requests.length - 1].body.image_url;
+
+describe('imageToText', () => {
+    beforeAll(async () => {
+        dir = await mkdtemp(join(tmpdir(), "wetrocloud-image-"));
+        await writeFile(join(dir, "receipt.jpg"), JPEG);
+        await writeFile(join(dir, "notes.txt"), "not an image");
+    });
+
+    afterAll(() => rm(dir, { recursive: true, force: true }));
+
+    beforeEach(() => {
+        ({ sdk, server } = createMockClient({ retry: false }));
+    });
+
+    it('still sends public URLs as they are', async () => {
+        const res = await sdk.imageToText({ image_url: "https://example.com/a.png", request_query: "What is it?" }) as IGenericResponse;
+
+        expect(res.response).toBe("Mock description of https://example.com/a.png");
+        expect(sentImage()).toBe("https://example.com/a.png");
+    });
+
+    it('sends local files, bytes and Blobs as data URIs with the sniffed type', async () => {
+        await sdk.imageToText({ image: join(dir, "receipt.jpg"), request_query: "Read it" });
+        expect(sentImage()).toBe(`data:image/jpeg;base64,${Buffer.from(JPEG).toString("base64")}`);
+
+        await sdk.imageToText({ image: new Blob([PNG], { type: "application/octet-stream" }), request_query: "Read it" });
+        expect(sentImage()).toMatch(/^data:image\/png;base64,/);
+    });
+
+    it('checks data URIs by content, whatever type they declare', async () => {
+        const res = await sdk.imageToText({
+            image: `data:image/gif;base64,${Buffer.from(PNG).toString("base64")}`,
+            request_query: "Read it"
+        }) as IGenericResponse;
+
+        expect(res.response).toBe("Mock description of a image/png data URI");
+    });
+
+    it('sends one image per call, as the API reads a single image_url', async () => {
+        const res = await sdk.imageToText({ image_url: "https://example.com/b.png", image: PNG, request_query: "Compare them" }) as IErrorMessage;
+
+        expect(res.error).toBeInstanceOf(ValidationError);
+        expect(server.requests).toHaveLength(0);
+    });
+
+    it('rejects unsupported formats and oversized images', async () => {
+        const text = await sdk.imageToText({ image: join(dir, "notes.txt"), request_query: "Read it" }) as IErrorMessage;
+        expect(text.error).toBeInstanceOf(ValidationError);
+
+        ({ sdk, server } = createMockClient({ retry: false, maxImageBytes: 8 }));
+        const large = await sdk.imageToText({ image: PNG, request_query: "Read it" }) as IErrorMessage;
+        expect(large.error?.message).toMatch(/larger than the 8 bytes limit/);
+        expect(server.requests).toHaveLength(0);
+    });
+
+    it('checks the size of files and Blobs before reading them', async () => {
+        ({ sdk, server } = createMockClient({ retry: false, maxImageBytes: 8 }));
+        const blob = new Blob([PNG]);
+        const read = jest.spyOn(blob, "arrayBuffer");
+
+        const fromBlob = await sdk.imageToText({ image: blob, request_query: "Read it" }) as IErrorMessage;
+        const fromFile = await sdk.imageToText({ image: join(dir, "notes.txt"), request_query: "Read it" }) as IErrorMessage;
+
+        expect(fromBlob.error?.message).toMatch(/larger than the 8 bytes limit/);
+        expect(read).not.toHaveBeenCalled();
+        expect(fromFile.error?.message).toMatch(/^Image is 12 bytes/);
+    });
+
+    it('runs transformImage before the size check', async () => {
+        ({ sdk, server } = createMockClient({ retry: false, maxImageBytes: 8 }));
+
+        await sdk.imageToText({
+            image: PNG,
+            request_query: "Read it",
+            transformImage: ({ mime_type }) => ({ bytes: JPEG.subarray(0, 4), mime_type: mime_type === "image/png" ? "image/jpeg" : mime_type })
+        });
+
+        expect(sentImage()).toBe(`data:image/jpeg;base64,${Buffer.from(JPEG.subarray(0, 4)).toString("base64")}`);
+    });
+
+    it('answers with structured data when given a json_schema', async () => {
+        const res = await sdk.imageToText({
+            image: PNG,
+            request_query: "Read this receipt",
+            json_schema: { merchant: "string", total: 0 }
+        }) as IImageToText<{ merchant: string, total: number }>;
+
+        expect(res.response).toEqual({ merchant: "string", total: 0 });
+        expect(JSON.parse(server.requests[0].body.json_schema)).toEqual({ merchant: "string", total: 0 });
+    });
+
+    it('names a missing local image', async () => {
+        const res = await sdk.imageToText({ image: join(dir, "missing.png"), request_query: "Read it" }) as IErrorMessage;
+
+        expect(res.error).toBeInstanceOf(ValidationError);
+        expect(res.message).toBe(`Cannot read "${join(dir, "missing.png")}": no such file or directory`);
+    });
+
+    it('needs at least one image', async () => {
+        const res = await sdk.imageToText({ request_query: "What is it?" }) as IErrorMessage;
+
+        expect(res.error).toBeInstanceOf(ValidationError);
+    });
+});
+
+describe('sniffImageType', () => {
+    it('recognizes formats from their signature', () => {
+        expect(sniffImageType(PNG)).toBe("image/png");
+        expect(sniffImageType(JPEG)).toBe("image/jpeg");
+        expect(sniffImageType(new TextEncoder().encode("RIFF\0\0\0\0WEBPVP8 "))).toBe("image/webp");
+        expect(sniffImageType(new TextEncoder().encode("hello"))).toBeUndefined();
+    });
+});
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import Wetrocloud from "../index.js";
+import { createLogger, redact } from "../logger.js";
+import { createMockClient, MockWetrocloudServer } from "../testing/index.js";
+import { ILogger, IRequestContext, IResponseStream, IStreamChunk } from '../types/index.js';
+import { ServerError, WetrocloudError } from "../errors.js";
+
+const collection_id = "kb";
+const secret = "sk-very-secret";
+
+let sdk: Wetrocloud;
+let server: MockWetrocloudServer;
+
+const memoryLogger = () => {
+    const lines: { level: string, message: string, meta?: Record<string, unknown> }[] = [];
+    const log = (level: string) => (message: string, meta?: Record<string, unknown>) => { lines.push({ level, message, meta }); };
+    const logger: ILogger = { debug: log("debug"), info: log("info"), warn: log("warn"), error: log("error") };
+    return { logger, lines };
+};
+
+describe('middleware', () => {
+    beforeEach(() => {
+        ({ sdk, server } = createMockClient({ retry: { maxRetries: 1, initialDelayMs: 0 } }));
+        server.addCollection(collection_id);
+    });
+
+    it('lets onRequest add headers and onResponse replace the response', async () => {
+        let seen: IRequestContext | undefined;
+        sdk.use({
+            onRequest: (ctx) => { ctx.headers["X-Correlation-Id"] = ctx.id; },
+            onResponse: (ctx, response) => {
+                seen = ctx;
+                return Array.isArray(response) ? undefined : { ...(response as object), intercepted: true };
+            }
+        });
+
+        const res = await sdk.queryResource({ collection_id, request_query: "hi", stream: false });
+
+        expect(res).toMatchObject({ intercepted: true });
+        expect(server.requests[0].headers["x-correlation-id"]).toBe(seen?.id);
+        expect(seen).toMatchObject({ method: "POST", url: "/collection/query/", attempt: 0 });
+    });
+
+    it('calls onError for every failed attempt', async () => {
+        const onError = jest.fn<(ctx: IRequestContext, error: WetrocloudError) => void>();
+        sdk.use({ onError });
+        server.fail("/collection/query/", {}, 2);
+
+        await sdk.queryResource({ collection_id, request_query: "hi", stream: false });
+
+        expect(onError).toHaveBeenCalledTimes(2);
+        expect(onError.mock.calls[1][0].attempt).toBe(1);
+        expect(onError.mock.calls[1][1]).toBeInstanceOf(ServerError);
+    });
+
+    it('passes every streamed chunk to onStreamChunk', async () => {
+        const chunks: IStreamChunk<unknown>[] = [];
+        sdk.use({ onStreamChunk: (_ctx, chunk) => { chunks.push(chunk); } });
+
+        const stream = await sdk.queryResource({ collection_id, request_query: "one two" }) as IResponseStream;
+        for await (const _chunk of stream) { /* drain */ }
+
+        expect(chunks.map((c) => c.response)).toEqual(["Mock ", "answer ", "to: ", "one ", "two", "", ""]);
+        expect(chunks[chunks.length - 1]).toMatchObject({ done: true, tokens: 2 });
+    });
+});
+
+describe('logger', () => {
+    it('logs requests at debug level with the secret masked', async () => {
+        const { logger, lines } = memoryLogger();
+        const client = createMockClient({ apiSecret: secret, logger, logLevel: "debug" });
+        client.sdk.use({ onRequest: (ctx) => { ctx.headers["X-Debug"] = `echo ${secret}`; } });
+        client.server.fail("/collection/all/", { status: 401, body: { detail: `Invalid token ${secret}` } });
+
+        await client.sdk.listCollections();
+
+        expect(lines.map((l) => l.level)).toEqual(["debug", "info"]);
+        expect(lines[1].message).toBe("GET /collection/all/ failed: Invalid token [REDACTED]");
+        expect(JSON.stringify(lines)).not.toContain(secret);
+    });
+
+    it('drops lines below the configured level', () => {
+        const { logger, lines } = memoryLogger();
+        const log = createLogger({ logger, level: "warn" });
+
+        log.info("hidden");
+        log.warn("shown");
+
+        expect(lines.map((l) => l.message)).toEqual(["shown"]);
+    });
+
+    it('redacts secrets and credential headers in nested metadata', () => {
+        const circular: Record<string, unknown> = { token: secret };
+        circular.self = circular;
+
+        expect(redact({ headers: { Authorization: "Token abc" }, nested: [`x${secret}y`], circular }, [secret])).toEqual({
+            headers: { Authorization: "[REDACTED]" },
+            nested: ["x[REDACTED]y"],
+            circular: { token: "[REDACTED]", self: "[Circular]" }
+        });
+    });
+});
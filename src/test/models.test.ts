@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import Wetrocloud from "../index.js";
+import { createMockClient, MockWetrocloudServer } from "../testing/index.js";
+import { IErrorMessage, IGenericResponse, IStructuredResponse } from '../types/index.js';
+import { getModel, listModels, validateModel } from "../models.js";
+import { AuthenticationError, ServerError, ValidationError } from "../errors.js";
+
+let sdk: Wetrocloud;
+let server: MockWetrocloudServer;
+let warnings: string[];
+
+const collection_id = "kb";
+const logger = () => ({ debug() { }, info() { }, warn(message: string) { warnings.push(message); }, error() { } });
+const sentModels = (path: string) => server.requests.filter((r) => r.path === path).map((r) => r.body.model);
+
+/** Answers with HTTP 503 for the given models. */
+function unavailable(...models: string[]) {
+    server.respond("/text-generation/", (req) => models.includes(req.body.model)
+        ? { status: 503, body: { detail: `${req.body.model} is unavailable` } }
+        : { body: { response: `answered by ${req.body.model}`, tokens: 1, success: true } });
+}
+
+describe('model catalog', () => {
+    it('describes the capabilities of known models', () => {
+        expect(getModel("gpt-4o")?.capabilities).toEqual({ streaming: true, vision: true, json: true });
+        expect(getModel("not-a-model")).toBeUndefined();
+        expect(getModel("llama-3.3-70b-versatile")?.id).toBe("llama-3.3-70b");
+        expect(listModels({ streaming: false }).map((m) => m.id)).toEqual(["o1", "o1-mini"]);
+    });
+
+    it('validates ids and capabilities', () => {
+        expect(() => validateModel("o1-mini", { requires: ["json"] })).toThrow('Model "o1-mini" does not support JSON answers');
+        expect(() => validateModel(" ")).toThrow(ValidationError);
+        expect(validateModel("gtp-4o")).toBeUndefined();
+        expect(() => validateModel("gtp-4o", { strict: true })).toThrow('Unknown model "gtp-4o"; did you mean "gpt-4o"?');
+    });
+});
+
+describe('models', () => {
+    beforeEach(() => {
+        warnings = [];
+        ({ sdk, server } = createMockClient({ retry: false, logger: logger() }));
+        server.addCollection(collection_id);
+    });
+
+    it('uses the client default model when a call picks none', async () => {
+        ({ sdk, server } = createMockClient({ retry: false, model: "gpt-4o-mini" }));
+        server.addCollection(collection_id);
+
+        await sdk.textGeneration({ messages: [{ role: "user", content: "hi" }] });
+        await sdk.queryResource({ collection_id, request_query: "hi", stream: false, model: "gpt-4o" });
+
+        expect(sentModels("/text-generation/")).toEqual(["gpt-4o-mini"]);
+        expect(sentModels("/collection/query/")).toEqual(["gpt-4o"]);
+    });
+
+    it('requires a model for textGeneration when there is no default', async () => {
+        const res = await sdk.textGeneration({ messages: [{ role: "user", content: "hi" }] }) as IErrorMessage;
+
+        expect(res.error).toBeInstanceOf(ValidationError);
+        expect(server.requests).toHaveLength(0);
+    });
+
+    it('rejects models lacking a capability the call needs before sending it', async () => {
+        const res = await sdk.queryResource({ collection_id, request_query: "hi", model: "o1", stream: true }) as IErrorMessage;
+
+        expect(res.error?.message).toBe('Model "o1" does not support streaming');
+        expect(server.requests).toHaveLength(0);
+    });
+
+    it('warns once about unknown models and sends them anyway, unless strict', async () => {
+        await sdk.textGeneration({ model: "gtp-4o", messages: [{ role: "user", content: "hi" }] });
+        await sdk.textGeneration({ model: "gtp-4o", messages: [{ role: "user", content: "hi" }] });
+
+        expect(warnings).toEqual(['Unknown model "gtp-4o"; did you mean "gpt-4o"?; sending it anyway']);
+        expect(sentModels("/text-generation/")).toEqual(["gtp-4o", "gtp-4o"]);
+
+        ({ sdk, server } = createMockClient({ retry: false, strictModels: true }));
+        const res = await sdk.textGeneration({ model: "gtp-4o", messages: [{ role: "user", content: "hi" }] }) as IErrorMessage;
+        expect(res.error).toBeInstanceOf(ValidationError);
+    });
+
+    it('falls back to the next model when one fails', async () => {
+        unavailable("gpt-4o", "claude-3-5-sonnet-latest");
+
+        const res = await sdk.textGeneration({
+            models: ["gpt-4o", "claude-3-5-sonnet-latest", "llama-3.3-70b-versatile"],
+            messages: [{ role: "user", content: "hi" }]
+        }) as IGenericResponse;
+
+        expect(res.response).toBe("answered by llama-3.3-70b-versatile");
+        expect(sentModels("/text-generation/")).toEqual(["gpt-4o", "claude-3-5-sonnet-latest", "llama-3.3-70b-versatile"]);
+        expect(warnings).toHaveLength(2);
+        expect(sdk.usage.snapshot().byModel).toEqual({ "llama-3.3-70b-versatile": { tokens: 1, calls: 1 } });
+        // every model is known (the last by its alias), only the failures are logged
+        expect(warnings.every((w) => w.startsWith("Model "))).toBe(true);
+    });
+
+    it('checks each fallback model only when it is tried, skipping invalid ones', async () => {
+        const first = await sdk.queryResource({ collection_id, request_query: "hi", model: "gpt-4o", models: ["o1"] });
+        expect(first).not.toHaveProperty("error");
+        expect(warnings).toEqual([]);
+
+        const stream = await sdk.queryResource({ collection_id, request_query: "hi", model: "o1", models: ["gpt-4o"] });
+        expect(stream).not.toHaveProperty("error");
+        expect(warnings).toEqual(['Model "o1" does not support streaming; trying "gpt-4o"']);
+        expect(sentModels("/collection/query/")).toEqual(["gpt-4o", "gpt-4o"]);
+    });
+
+    it('returns the last error when every model fails', async () => {
+        unavailable("gpt-4o", "gpt-4o-mini");
+
+        const res = await sdk.textGeneration({ model: "gpt-4o", models: ["gpt-4o-mini"], messages: [{ role: "user", content: "hi" }] }) as IErrorMessage;
+
+        expect(res.error).toBeInstanceOf(ServerError);
+        expect(res.message).toBe("gpt-4o-mini is unavailable");
+    });
+
+    it('does not fall back on errors another model cannot fix', async () => {
+        server.fail("/collection/query/", { status: 401, body: { detail: "Invalid API key" } });
+
+        const res = await sdk.queryResource({ collection_id, request_query: "hi", stream: false, models: ["gpt-4o", "gpt-4o-mini"] }) as IErrorMessage;
+
+        expect(res.error).toBeInstanceOf(AuthenticationError);
+        expect(sentModels("/collection/query/")).toEqual(["gpt-4o"]);
+    });
+
+    it('falls back for structured queries too', async () => {
+        server.fail("/collection/query/", { status: 500 });
+
+        const res = await sdk.queryResource({
+            collection_id, request_query: "hi", stream: false, json_schema: { topic: "string" }, models: ["gpt-4o", "gpt-4o-mini"]
+        }) as IStructuredResponse<{ topic: string }>;
+
+        expect(res.response).toEqual({ topic: "string" });
+        expect(sentModels("/collection/query/")).toEqual(["gpt-4o", "gpt-4o-mini"]);
+    });
+});
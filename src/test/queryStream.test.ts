@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { Writable } from "stream";
+import Wetrocloud, { QueryStream } from "../index.js";
+import { createMockClient, MockWetrocloudServer } from "../testing/index.js";
+import { IResponseStream } from '../types/index.js';
+import { RequestAbortedError, StreamParseError, WetrocloudError } from "../errors.js";
+
+let sdk: Wetrocloud;
+let server: MockWetrocloudServer;
+
+const collection_id = "docs";
+
+async function query(...chunks: unknown[]): Promise<IResponseStream> {
+    server.respond("/collection/query/", { chunks });
+    return await sdk.queryResource({ collection_id, request_query: "hi" }) as IResponseStream;
+}
+
+describe('QueryStream', () => {
+    beforeEach(() => {
+        ({ sdk, server } = createMockClient({ retry: false }));
+        server.addCollection(collection_id);
+    });
+
+    it('is returned by the streaming methods and still iterates', async () => {
+        const stream = await query({ response: "Hello" }, { response: " world", tokens: 4, success: true });
+        const chunks = [];
+        for await (const chunk of stream) chunks.push(chunk);
+
+        expect(stream).toBeInstanceOf(QueryStream);
+        expect(chunks.map((c) => c.response)).toEqual(["Hello", " world", ""]);
+        expect(await stream.finalResponse()).toEqual({ response: "Hello world", text: "Hello world", tokens: 4, success: true });
+    });
+
+    it('emits text snapshots, tokens and end', async () => {
+        const stream = await query({ response: "Hello" }, { response: " world", tokens: 4, success: true });
+        const events: unknown[] = [];
+
+        stream
+            .on("text", (delta, snapshot) => events.push(["text", delta, snapshot]))
+            .on("tokens", (tokens) => events.push(["tokens", tokens]))
+            .on("end", (result) => events.push(["end", result.text]));
+        await stream.finalResponse();
+
+        expect(events).toEqual([
+            ["text", "Hello", "Hello"],
+            ["text", " world", "Hello world"],
+            ["tokens", 4],
+            ["end", "Hello world"]
+        ]);
+    });
+
+    it('parses a JSON answer once the stream ends', async () => {
+        const stream = await query({ response: '```json\n{"topic":' }, { response: ' "web3"}\n```', tokens: 2 });
+        let json: unknown;
+        stream.on("json", (value) => json = value);
+
+        const result = await stream.finalResponse();
+
+        expect(json).toEqual({ topic: "web3" });
+        expect(result.response).toEqual({ topic: "web3" });
+    });
+
+    it('reports skipped lines without ending the stream', async () => {
+        const stream = await query({ response: "a" }, "not json", { response: "b", tokens: 1 });
+        const errors: WetrocloudError[] = [];
+        stream.on("error", (error) => errors.push(error));
+
+        expect((await stream.finalResponse()).text).toBe("ab");
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toBeInstanceOf(StreamParseError);
+    });
+
+    it('rejects finalResponse when the consumer stops early', async () => {
+        const stream = await query({ response: "a" }, { response: "b" });
+        for await (const _chunk of stream) break;
+
+        await expect(stream.finalResponse()).rejects.toBeInstanceOf(RequestAbortedError);
+    });
+
+    it('cannot be iterated or teed once listeners started reading it', async () => {
+        const stream = await query({ response: "a" }, { response: "b", tokens: 2 });
+        const chunks: unknown[] = [];
+        stream.on("chunk", (chunk) => chunks.push(chunk));
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(() => stream[Symbol.asyncIterator]()).toThrow(/already being read/);
+        expect(() => stream.tee()).toThrow(/already being read/);
+        await stream.finalResponse();
+        expect(chunks).toHaveLength(3);
+    });
+
+    it('tees the chunks to several consumers', async () => {
+        const [first, second] = (await query({ response: "a" }, { response: "b", tokens: 2 })).tee();
+        const texts: string[] = [];
+        for await (const chunk of first) texts.push(String(chunk.response));
+
+        expect(texts).toEqual(["a", "b", ""]);
+        expect(await second.finalResponse()).toMatchObject({ text: "ab", tokens: 2 });
+        expect(() => first.tee()).toThrow(/already being read/);
+    });
+
+    it('pipes the text to a Writable', async () => {
+        const written: string[] = [];
+        const destination = new Writable({
+            highWaterMark: 1,
+            write(chunk, _encoding, callback) {
+                written.push(chunk.toString());
+                setTimeout(callback, 1);
+            }
+        });
+        const stream = await query({ response: "a" }, { response: "b", tokens: 2 });
+
+        await stream.pipe(destination);
+
+        expect(written).toEqual(["a", "b"]);
+        expect(destination.writableEnded).toBe(true);
+    });
+
+    it('stops reading when the destination closes while it is full', async () => {
+        ({ sdk, server } = createMockClient({ retry: false, rateLimit: { maxConcurrent: 1 } }));
+        server.addCollection(collection_id);
+        // never calls back, so the destination stays full after the first write
+        const destination = new Writable({ highWaterMark: 1, write() { } });
+        const stream = await query({ response: "a" }, { response: "b" }, { response: "c", tokens: 3 });
+
+        const piped = stream.pipe(destination);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        destination.destroy();
+
+        await expect(piped).rejects.toBeInstanceOf(RequestAbortedError);
+        expect(sdk.rateLimiter!.stats()).toMatchObject({ inFlight: 0 });
+    });
+
+    it('pipes server-sent events to an HTTP response', async () => {
+        const res = {
+            headers: {} as Record<string, string>,
+            body: "",
+            ended: false,
+            setHeader(name: string, value: string) { this.headers[name] = value; },
+            write(data: string) { this.body += data; return true; },
+            end() { this.ended = true; }
+        };
+        const stream = await query({ response: "a", tokens: 1, success: true });
+
+        await stream.pipeSSE(res);
+
+        expect(res.headers["Content-Type"]).toBe("text/event-stream");
+        expect(res.body).toBe([
+            'event: chunk\ndata: {"response":"a","tokens":1,"success":true}\n\n',
+            'event: chunk\ndata: {"response":"","tokens":1,"success":true,"done":true}\n\n',
+            'event: end\ndata: {"response":"a","text":"a","tokens":1,"success":true}\n\n'
+        ].join(""));
+        expect(res.ended).toBe(true);
+    });
+});
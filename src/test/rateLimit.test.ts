@@ -0,0 +1,126 @@
+import { describe, expect, it } from '@jest/globals';
+import { RequestAbortedError } from "../errors.js";
+import { RateLimiter } from "../rateLimiter.js";
+import { createMockClient } from "../testing/index.js";
+import { IResponseStream, ResourceType } from '../types/index.js';
+
+const collection_id = "kb";
+
+describe('rate limiting', () => {
+    it('sends queued requests by priority, first come first served among equals', async () => {
+        const { sdk, server } = createMockClient({ rateLimit: { maxConcurrent: 1 } });
+        server.addCollection(collection_id);
+        const order: string[] = [];
+        server.respond("/collection/query/", (req) => {
+            order.push(req.body.request_query);
+            return { body: { response: "ok", tokens: 1, success: true }, delayMs: 10 };
+        });
+
+        const ask = (request_query: string, priority?: number) =>
+            sdk.queryResource({ collection_id, request_query, stream: false, priority });
+        await Promise.all([ask("first"), ask("batch", -1), ask("chat", 10), ask("normal")]);
+
+        expect(order).toEqual(["first", "chat", "normal", "batch"]);
+        expect(sdk.rateLimiter!.stats()).toMatchObject({ queued: 0, inFlight: 0 });
+        expect(sdk.rateLimiter!.stats().maxWaitMs).toBeGreaterThan(0);
+    });
+
+    it('allows at most requestsPerInterval requests per sliding window', async () => {
+        const { sdk, server } = createMockClient({ rateLimit: { requestsPerInterval: 2, interval: 80 } });
+        const sentAt: number[] = [];
+        server.respond("/collection/all/", () => {
+            sentAt.push(Date.now());
+            return { body: { results: [] } };
+        });
+
+        await Promise.all(Array.from({ length: 4 }, () => sdk.listCollections()));
+
+        expect(sentAt).toHaveLength(4);
+        expect(sentAt[2] - sentAt[0]).toBeGreaterThanOrEqual(75);
+        expect(sentAt[3] - sentAt[1]).toBeGreaterThanOrEqual(75);
+    });
+
+    it('keeps separate buckets per endpoint and reports queue depth', async () => {
+        const { sdk, server } = createMockClient({ rateLimit: { endpoints: { "/resource/insert/": { maxConcurrent: 1 } } } });
+        server.addCollection(collection_id);
+        server.respond("/resource/insert/", { body: { resource_id: "r", success: true, token: 1 }, delayMs: 30 });
+
+        const inserts = [1, 2].map((i) => sdk.insertResource({ collection_id, resource: `doc ${i}`, type: ResourceType.TEXT }));
+        await new Promise((resolve) => setTimeout(resolve, 5));
+
+        const stats = sdk.rateLimiter!.stats();
+        expect(stats.buckets["/resource/insert/"]).toMatchObject({ queued: 1, inFlight: 1 });
+        expect(stats.buckets.default).toMatchObject({ queued: 0, inFlight: 0 });
+        expect(stats.oldestWaitMs).toBeGreaterThan(0);
+
+        // queries are not held up by the insert bucket
+        const query = await sdk.queryResource({ collection_id, request_query: "hi", stream: false });
+        expect(query).toHaveProperty("success", true);
+        expect(sdk.rateLimiter!.stats().buckets["/resource/insert/"].queued).toBe(1);
+
+        await Promise.all(inserts);
+    });
+
+    it('holds a slot for a stream until it ends', async () => {
+        const { sdk, server } = createMockClient({ rateLimit: { maxConcurrent: 1 } });
+        server.addCollection(collection_id);
+
+        const stream = await sdk.queryResource({ collection_id, request_query: "one two" }) as IResponseStream;
+        const list = sdk.listCollections();
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        expect(sdk.rateLimiter!.stats()).toMatchObject({ queued: 1, inFlight: 1 });
+
+        for await (const _chunk of stream) { /* drain */ }
+        await list;
+        expect(sdk.rateLimiter!.stats()).toMatchObject({ queued: 0, inFlight: 0 });
+    });
+
+    it('releases the slot of a stream that is cancelled before it is read', async () => {
+        const { sdk, server } = createMockClient({ rateLimit: { maxConcurrent: 1 } });
+        server.addCollection(collection_id);
+
+        const abandoned = await sdk.queryResource({ collection_id, request_query: "one two" }) as IResponseStream;
+        const list = sdk.listCollections();
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        expect(sdk.rateLimiter!.stats()).toMatchObject({ queued: 1, inFlight: 1 });
+
+        await abandoned.cancel();
+        await list;
+        await expect(abandoned.finalResponse()).rejects.toBeInstanceOf(RequestAbortedError);
+
+        const returned = await sdk.queryResource({ collection_id, request_query: "three" }) as IResponseStream;
+        await returned.return();
+        expect(sdk.rateLimiter!.stats()).toMatchObject({ queued: 0, inFlight: 0 });
+    });
+
+    it('drops aborted requests from the queue', async () => {
+        const limiter = new RateLimiter({ maxConcurrent: 1 });
+        const release = await limiter.acquire("/collection/query/");
+        const controller = new AbortController();
+        const queued = limiter.acquire("/collection/query/", { signal: controller.signal });
+
+        controller.abort(new RequestAbortedError("Request was cancelled"));
+
+        await expect(queued).rejects.toBeInstanceOf(RequestAbortedError);
+        expect(limiter.stats().queued).toBe(0);
+        release();
+        release();
+        expect(limiter.stats().inFlight).toBe(0);
+    });
+
+    it('rejects queued requests aborted with any reason with RequestAbortedError', async () => {
+        const { sdk, server } = createMockClient({ rateLimit: { maxConcurrent: 1 } });
+        server.respond("/collection/all/", { body: { results: [] }, delayMs: 50 });
+        const controller = new AbortController();
+
+        const first = sdk.listCollections();
+        const queued = sdk.listCollections({ signal: controller.signal });
+        controller.abort("stop");
+
+        const error = await queued.catch((e) => e);
+        expect(error).toBeInstanceOf(RequestAbortedError);
+        expect(error.cause).toBe("stop");
+        await first;
+        expect(server.requests).toHaveLength(1);
+    });
+});
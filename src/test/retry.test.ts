@@ -0,0 +1,32 @@
+import { describe, expect, it } from '@jest/globals';
+import { computeDelay, resolveRetryOptions, shouldRetry } from "../retry.js";
+
+const options = resolveRetryOptions({ maxRetries: 3, initialDelayMs: 100, jitter: false });
+
+describe('retry policy', () => {
+    it('retries retryable statuses and error codes on idempotent requests', () => {
+        expect(shouldRetry({ response: { status: 503 } }, 0, options, true)).toBe(true);
+        expect(shouldRetry({ code: "ECONNRESET" }, 0, options, true)).toBe(true);
+        expect(shouldRetry({ response: { status: 400 } }, 0, options, true)).toBe(false);
+    });
+
+    it('stops after maxRetries', () => {
+        expect(shouldRetry({ response: { status: 503 } }, 3, options, true)).toBe(false);
+    });
+
+    it('only retries non-idempotent requests when opted in', () => {
+        expect(shouldRetry({ response: { status: 503 } }, 0, options, false)).toBe(false);
+        const optedIn = resolveRetryOptions(options, { retryNonIdempotent: true });
+        expect(shouldRetry({ response: { status: 503 } }, 0, optedIn, false)).toBe(true);
+    });
+
+    it('can be disabled', () => {
+        expect(shouldRetry({ response: { status: 503 } }, 0, resolveRetryOptions(false), true)).toBe(false);
+    });
+
+    it('backs off exponentially and honors Retry-After', () => {
+        expect(computeDelay({}, 0, options)).toBe(100);
+        expect(computeDelay({}, 2, options)).toBe(400);
+        expect(computeDelay({ response: { headers: { "retry-after": "1" } } }, 0, options)).toBe(1000);
+    });
+});
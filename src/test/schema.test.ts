@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { z } from "zod";
+import Wetrocloud from "../index.js";
+import { SchemaValidationError, ValidationError } from "../errors.js";
+import { IJsonSchema, toExampleSchema, toJsonSchema, validateResponse } from "../schema.js";
+import { createMockClient, MockWetrocloudServer } from "../testing/index.js";
+import { IErrorMessage, InferJsonSchema, ResourceType } from '../types/index.js';
+
+const collection_id = "docs";
+
+let sdk: Wetrocloud;
+let server: MockWetrocloudServer;
+
+const Steps = z.array(z.object({ step: z.string(), description: z.string().optional() }));
+
+describe('schema conversion', () => {
+    it('converts Zod schemas to the example format the API expects', () => {
+        const schema = z.object({
+            title: z.string(),
+            score: z.number(),
+            tags: z.array(z.string()),
+            level: z.enum(["low", "high"]),
+            note: z.string().optional()
+        });
+
+        expect(toJsonSchema(schema)).toMatchObject({ type: "object", required: ["title", "score", "tags", "level"] });
+        expect(toExampleSchema(toJsonSchema(schema))).toEqual({
+            title: "string",
+            score: "number",
+            tags: ["string"],
+            level: 'one of: "low" | "high"',
+            note: "string"
+        });
+    });
+
+    it('reports every failing path of a JSON Schema', () => {
+        const schema: IJsonSchema = {
+            type: "object",
+            properties: { title: { type: "string" }, items: { type: "array", items: { type: "integer" } } },
+            required: ["title", "items"]
+        };
+
+        const error = (() => {
+            try {
+                validateResponse(schema, '{"items":[1,"two"]}');
+            } catch (e) {
+                return e as SchemaValidationError;
+            }
+        })();
+
+        expect(error).toBeInstanceOf(SchemaValidationError);
+        expect(error?.issues).toEqual([
+            { path: "title", message: "Required" },
+            { path: "items.1", message: "Expected integer, received string" }
+        ]);
+    });
+});
+
+describe('schema option', () => {
+    beforeEach(() => {
+        ({ sdk, server } = createMockClient({ retry: false }));
+        server.addCollection(collection_id);
+    });
+
+    it('sends the derived json_schema and returns the validated response', async () => {
+        const res = await sdk.queryResource({ collection_id, request_query: "steps?", schema: Steps });
+
+        expect(JSON.parse(server.requests[0].body.json_schema)).toEqual([{ step: "string", description: "string" }]);
+        expect(res).toMatchObject({ success: true, response: [{ step: "string" }] });
+    });
+
+    it('returns a SchemaValidationError with the failing paths', async () => {
+        server.respond("/collection/query/", { body: { response: '[{"step":1}]', tokens: 3, success: true } });
+
+        const res = await sdk.queryResource({ collection_id, request_query: "steps?", schema: Steps }) as any;
+
+        expect(res.error).toBeInstanceOf(SchemaValidationError);
+        expect(res.error.issues).toEqual([{ path: "0.step", message: expect.any(String) }]);
+    });
+
+    it('re-asks with the validation errors when repair is enabled', async () => {
+        const answers = ['[{"step":1}]', '[{"step":"install"}]'];
+        server.respond("/collection/query/", () => ({ body: { response: answers.shift(), tokens: 3, success: true } }));
+
+        const res = await sdk.queryResource({ collection_id, request_query: "steps?", schema: Steps, repair: true });
+
+        expect(server.requests).toHaveLength(2);
+        expect(server.requests[1].body.json_schema_rules).toContain("0.step");
+        expect(res).toMatchObject({ response: [{ step: "install" }], tokens: 6 });
+    });
+
+    it('rejects schema validation on streamed queries', async () => {
+        const res = await sdk.queryResource({ collection_id, request_query: "steps?", schema: Steps, stream: true }) as any;
+        expect(res.message).toMatch(/stream: false/);
+        expect(server.requests).toHaveLength(0);
+    });
+
+    it('validates categorize and extract responses', async () => {
+        const categorized = await sdk.categorize({
+            resource: "match report: football",
+            type: ResourceType.TEXT,
+            categories: ["football", "tennis"],
+            prompt: "Categorize",
+            schema: z.object({ label: z.enum(["football", "tennis"]) })
+        });
+        expect(categorized).toMatchObject({ response: { label: "football" } });
+
+        const extracted = await sdk.extract({
+            website_url: "https://example.com",
+            schema: z.object({ price: z.number() })
+        }) as any;
+        expect(extracted.error).toBeInstanceOf(SchemaValidationError);
+    });
+
+    it('needs a json_schema or schema for categorize and extract', async () => {
+        const categorized = await sdk.categorize({
+            resource: "match report: football", type: ResourceType.TEXT, categories: ["football"], prompt: "Categorize"
+        } as any) as IErrorMessage;
+        const extracted = await sdk.extract({ website_url: "https://example.com" } as any) as IErrorMessage;
+
+        expect(categorized.error).toBeInstanceOf(ValidationError);
+        expect(extracted.message).toBe("Pass `json_schema` or `schema`");
+        expect(server.requests).toHaveLength(0);
+    });
+
+    it('repairs categorize and extract answers', async () => {
+        const labels = ["cricket", "football"];
+        server.respond("/categorize/", () => ({ body: { response: { label: labels.shift() }, tokens: 2, success: true } }));
+        server.respond("/data-extraction/", () => ({ body: { response: { price: server.requests.length > 3 ? 5 : "5" }, tokens: 1, success: true } }));
+
+        const categorized = await sdk.categorize({
+            resource: "match report: football",
+            type: ResourceType.TEXT,
+            categories: ["football", "tennis"],
+            prompt: "Categorize",
+            schema: z.object({ label: z.enum(["football", "tennis"]) }),
+            repair: true
+        });
+        const extracted = await sdk.extract({ website_url: "https://example.com", schema: z.object({ price: z.number() }), repair: 1 });
+
+        expect(categorized).toMatchObject({ response: { label: "football" }, tokens: 4 });
+        expect(server.requests[1].body.prompt).toMatch(/^Categorize\n.*label/);
+        expect(extracted).toMatchObject({ response: { price: 5 }, tokens: 2 });
+        expect(server.requests[3].body.json_schema_rules).toContain("price");
+    });
+});
+
+type Equals<A, B> = (<X>() => X extends A ? 1 : 2) extends (<X>() => X extends B ? 1 : 2) ? true : false;
+const assertType = <_T extends true>() => { };
+
+describe('json_schema inference', () => {
+    beforeEach(() => {
+        ({ sdk, server } = createMockClient({ retry: false }));
+        server.addCollection(collection_id);
+    });
+
+    it('infers plain types from json_schema examples', () => {
+        type Inferred = InferJsonSchema<{ title: "string", count: "number", tags: ["string"], done: "boolean (whether it shipped)", note: "" }>;
+        assertType<Equals<Inferred, { title: string, count: number, tags: string[], done: boolean, note: string }>>();
+        assertType<Equals<InferJsonSchema<[{ step: "" }]>, { step: string }[]>>();
+    });
+
+    it('types responses from the call', async () => {
+        const query = await sdk.queryResource({
+            collection_id,
+            request_query: "post?",
+            json_schema: { title: "string", count: "number" },
+            stream: false
+        });
+        const text = await sdk.queryResource({ collection_id, request_query: "hi", stream: false });
+        const zodQuery = await sdk.queryResource({ collection_id, request_query: "steps?", schema: Steps });
+        const extracted = await sdk.extract({ website_url: "https://example.com", json_schema: [{ name: "string" }] });
+
+        assertType<Equals<Exclude<typeof query, IErrorMessage>["response"], { title: string, count: number }>>();
+        assertType<Equals<Exclude<typeof text, IErrorMessage>["response"], string>>();
+        assertType<Equals<Exclude<typeof zodQuery, IErrorMessage>["response"], z.infer<typeof Steps>>>();
+        assertType<Equals<Exclude<typeof extracted, IErrorMessage>["response"], { name: string }[]>>();
+        expect(text).toMatchObject({ response: "Mock answer to: hi" });
+    });
+});
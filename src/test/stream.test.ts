@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Readable } from "stream";
+import Wetrocloud from "../index.js";
+import { createMockClient, MockWetrocloudServer } from "../testing/index.js";
+import { IResponseStream, IStreamChunk } from '../types/index.js';
+import { StreamParseError } from "../errors.js";
+import { parseJsonLines, toResponseStream } from "../stream.js";
+
+const collection_id = "docs";
+
+let sdk: Wetrocloud;
+let server: MockWetrocloudServer;
+
+const collect = async <T>(stream: AsyncIterable<T>) => {
+    const chunks: T[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+};
+
+describe('streaming', () => {
+    beforeEach(() => {
+        ({ sdk, server } = createMockClient());
+        server.addCollection(collection_id);
+    });
+
+    it('streams chat answers and ends with the token count', async () => {
+        const stream = await sdk.chat({
+            collection_id,
+            message: "What is Web3?",
+            chat_history: [],
+            stream: true
+        }) as IResponseStream;
+
+        const chunks = await collect(stream);
+        const last = chunks[chunks.length - 1];
+
+        expect(chunks.slice(0, -1).map((c) => c.response).join("")).toContain("What is Web3?");
+        expect(last).toMatchObject({ done: true, tokens: 3, success: true });
+        expect(server.requests[0].body.stream).toBe(true);
+    });
+
+    it('streams text generation', async () => {
+        const stream = await sdk.textGeneration({
+            model: "llama-3.3-70b",
+            messages: [{ role: "user", content: "hello there" }],
+            stream: true
+        }) as IResponseStream;
+
+        const chunks = await collect(stream);
+
+        expect(chunks.length).toBeGreaterThan(2);
+        expect(chunks[chunks.length - 1].done).toBe(true);
+        expect(server.requests[0].body.stream).toBe(true);
+    });
+
+    it('sends the stream flag only for streamed queries', async () => {
+        await collect(await sdk.queryResource({ collection_id, request_query: "hi" }) as IResponseStream);
+        await sdk.queryResource({ collection_id, request_query: "hi", stream: false });
+
+        expect(server.requests.map((r) => r.body.stream)).toEqual([true, undefined]);
+    });
+
+    it('lets the mock server tell streamed calls apart from the body over fetch too', async () => {
+        const fetchServer = new MockWetrocloudServer().addCollection(collection_id);
+        const client = new Wetrocloud({ apiSecret: "test-secret", fetch: fetchServer.fetch, logLevel: "silent" });
+
+        const chunks = await collect(await client.queryResource({ collection_id, request_query: "hi" }) as IResponseStream);
+        const res = await client.queryResource({ collection_id, request_query: "hi", stream: false });
+
+        expect(chunks.map((c) => c.response)).toEqual(["Mock ", "answer ", "to: ", "hi", "", ""]);
+        expect(chunks[chunks.length - 1]).toMatchObject({ done: true, tokens: 1 });
+        expect(res).toMatchObject({ response: "Mock answer to: hi", success: true });
+    });
+
+    it('still answers in one piece without stream', async () => {
+        const res = await sdk.chat({ collection_id, message: "hi", chat_history: [] });
+
+        expect(res).toMatchObject({ success: true, tokens: 1 });
+        expect(server.requests[0].body).not.toHaveProperty("stream");
+    });
+});
+
+describe('parseJsonLines', () => {
+    it('reassembles lines split across chunks', async () => {
+        const body = Readable.from(['{"respo', 'nse":"a"}\n{"response"', ':"b"}']);
+
+        expect(await collect(parseJsonLines(body))).toEqual([{ response: "a" }, { response: "b" }]);
+    });
+
+    it('skips unparsable lines unless asked to throw', async () => {
+        const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+        expect(await collect(parseJsonLines(Readable.from(['oops\n{"response":"a"}\n']), { logger }))).toEqual([{ response: "a" }]);
+        expect(logger.warn).toHaveBeenCalledWith("Error parsing JSON chunk", expect.objectContaining({ chunk: "oops" }));
+
+        await expect(collect(parseJsonLines(Readable.from(['oops\n']), { throwOnParseError: true })))
+            .rejects.toBeInstanceOf(StreamParseError);
+    });
+
+    it('appends a final chunk when the server reports no usage', async () => {
+        const chunks: IStreamChunk[] = await collect(toResponseStream(Readable.from(['{"response":"a"}\n']), {}));
+
+        expect(chunks).toEqual([{ response: "a" }, { response: "", tokens: 0, success: true, done: true }]);
+    });
+});
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import Wetrocloud from "../index.js";
+import { formatSyncPlan, MANIFEST_FILE } from "../sync.js";
+import { createMockClient, MockWetrocloudServer } from "../testing/index.js";
+import { IErrorMessage, ISyncManifest, ISyncReport } from '../types/index.js';
+
+const collection_id = "docs";
+
+let sdk: Wetrocloud;
+let server: MockWetrocloudServer;
+let dir: string;
+
+const sync = async (params: { dryRun?: boolean, include?: string[], exclude?: string[], concurrency?: number } = {}) =>
+    await sdk.syncDirectory({ collection_id, dir, ...params }) as ISyncReport;
+const manifest = async (): Promise<ISyncManifest> => JSON.parse(await readFile(join(dir, MANIFEST_FILE), "utf8"));
+const calls = (path: string) => server.requests.filter((r) => r.path.endsWith(path)).length;
+
+describe('syncDirectory', () => {
+    beforeEach(async () => {
+        ({ sdk, server } = createMockClient());
+        server.addCollection(collection_id);
+        dir = await mkdtemp(join(tmpdir(), "wetrocloud-sync-"));
+        await mkdir(join(dir, "guides"));
+        await writeFile(join(dir, "intro.md"), "Welcome");
+        await writeFile(join(dir, "guides", "setup.md"), "Install it");
+        await writeFile(join(dir, "notes.txt"), "scratch");
+    });
+
+    it('inserts matching files once and records them in the manifest', async () => {
+        const first = await sync({ include: ["*.md"] });
+
+        expect(first.plan).toEqual({ insert: ["guides/setup.md", "intro.md"], replace: [], remove: [], unchanged: [] });
+        expect(first.failed).toEqual([]);
+        expect(first.tokens).toBeGreaterThan(0);
+        const files = (await manifest()).files;
+        expect(Object.keys(files).sort()).toEqual(["guides/setup.md", "intro.md"]);
+        expect(server.collections.get(collection_id)!.resources.has(files["intro.md"].resource_id)).toBe(true);
+
+        const second = await sync({ include: ["*.md"] });
+        expect(second.plan.unchanged).toEqual(["guides/setup.md", "intro.md"]);
+        expect(calls("/resource/insert/")).toBe(2);
+    });
+
+    it('replaces changed files, removes deleted ones and previews it all with dryRun', async () => {
+        await sync({ exclude: ["notes.txt"] });
+        const before = (await manifest()).files;
+
+        await writeFile(join(dir, "intro.md"), "Welcome back");
+        await rm(join(dir, "guides", "setup.md"));
+        await writeFile(join(dir, "faq.md"), "Questions");
+
+        const preview = await sync({ exclude: ["notes.txt"], dryRun: true });
+        expect(formatSyncPlan(preview.plan)).toBe("+ faq.md\n~ intro.md\n- guides/setup.md\n1 to insert, 1 to replace, 1 to remove, 0 unchanged");
+        expect(calls("/resource/insert/")).toBe(2);
+        expect((await manifest()).files).toEqual(before);
+
+        const report = await sync({ exclude: ["notes.txt"] });
+        expect(report.failed).toEqual([]);
+        expect(calls("/resource/remove/")).toBe(2);
+
+        const after = (await manifest()).files;
+        expect(Object.keys(after).sort()).toEqual(["faq.md", "intro.md"]);
+        expect(after["intro.md"].resource_id).not.toBe(before["intro.md"].resource_id);
+        expect([...server.collections.get(collection_id)!.resources.keys()].sort())
+            .toEqual([after["faq.md"].resource_id, after["intro.md"].resource_id].sort());
+    });
+
+    it('resumes after a failure, retrying only what is missing', async () => {
+        server.fail("/resource/insert/", { status: 503 }, 1);
+
+        const first = await sync({ concurrency: 1 });
+        expect(first.failed.map((f) => f.path)).toEqual(["guides/setup.md"]);
+        expect(Object.keys((await manifest()).files).sort()).toEqual(["intro.md", "notes.txt"]);
+
+        const second = await sync();
+        expect(second.plan.insert).toEqual(["guides/setup.md"]);
+        expect(second.failed).toEqual([]);
+    });
+
+    it('names a missing directory', async () => {
+        const res = await sdk.syncDirectory({ collection_id, dir: join(dir, "missing") }) as IErrorMessage;
+
+        expect(res.error?.name).toBe("ValidationError");
+        expect(res.message).toBe(`Cannot read "${join(dir, "missing")}": no such file or directory`);
+    });
+
+    it('refuses a manifest written for another collection', async () => {
+        await writeFile(join(dir, MANIFEST_FILE), JSON.stringify({ version: 1, collection_id: "other", files: {} }));
+
+        const res = await sdk.syncDirectory({ collection_id, dir }) as IErrorMessage;
+
+        expect(res.error?.name).toBe("ValidationError");
+        expect(res.message).toContain('tracks collection "other"');
+    });
+});
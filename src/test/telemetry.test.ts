@@ -0,0 +1,162 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { AsyncLocalStorage } from "async_hooks";
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from "@opentelemetry/sdk-trace-base";
+import { AggregationTemporality, InMemoryMetricExporter, MeterProvider, PeriodicExportingMetricReader } from "@opentelemetry/sdk-metrics";
+import { Context, context, ContextManager, ROOT_CONTEXT, SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import Wetrocloud from "../index.js";
+import { createMockClient, MockWetrocloudServer } from "../testing/index.js";
+import { IResponseStream, ResourceType } from '../types/index.js';
+
+const collection_id = "kb";
+
+let sdk: Wetrocloud;
+let server: MockWetrocloudServer;
+let exporter: InMemorySpanExporter;
+let tracerProvider: BasicTracerProvider;
+let meterProvider: MeterProvider;
+let reader: PeriodicExportingMetricReader;
+
+const spans = () => exporter.getFinishedSpans();
+const operationSpans = () => spans().filter((span) => span.name.startsWith("wetrocloud."));
+const attemptSpans = () => spans().filter((span) => !span.name.startsWith("wetrocloud."));
+const parentOf = (name: string) => spans().find((span) => span.name === name)!.spanContext().spanId;
+
+/** What the OpenTelemetry Node SDK registers, so the active span follows `await`. */
+class AsyncLocalContextManager implements ContextManager {
+    private storage = new AsyncLocalStorage<Context>();
+
+    active() { return this.storage.getStore() ?? ROOT_CONTEXT; }
+    with<A extends unknown[], F extends (...args: A) => ReturnType<F>>(ctx: Context, fn: F, thisArg?: ThisParameterType<F>, ...args: A) {
+        return this.storage.run(ctx, () => fn.apply(thisArg, args));
+    }
+    bind<T>(_context: Context, target: T) { return target; }
+    enable() { return this; }
+    disable() {
+        this.storage.disable();
+        return this;
+    }
+}
+
+describe('telemetry', () => {
+    beforeAll(() => context.setGlobalContextManager(new AsyncLocalContextManager()));
+    afterAll(() => context.disable());
+
+    beforeEach(() => {
+        exporter = new InMemorySpanExporter();
+        tracerProvider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+        reader = new PeriodicExportingMetricReader({
+            exporter: new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE),
+            exportIntervalMillis: 60_000
+        });
+        meterProvider = new MeterProvider({ readers: [reader] });
+
+        ({ sdk, server } = createMockClient({
+            retry: { maxRetries: 1, initialDelayMs: 0 },
+            telemetry: { tracer: tracerProvider.getTracer("test"), meter: meterProvider.getMeter("test") }
+        }));
+        server.addCollection(collection_id);
+    });
+
+    afterEach(async () => {
+        await tracerProvider.shutdown();
+        await meterProvider.shutdown();
+    });
+
+    it('creates a span per call, with a client span per attempt', async () => {
+        await sdk.queryResource({ collection_id, request_query: "one two", model: "gpt-4o", stream: false });
+
+        expect(operationSpans()).toHaveLength(1);
+        const [span] = operationSpans();
+        expect(span.name).toBe("wetrocloud.queryResource");
+        expect(span.kind).toBe(SpanKind.INTERNAL);
+        expect(span.status.code).toBe(SpanStatusCode.OK);
+        expect(span.attributes).toMatchObject({
+            "wetrocloud.endpoint": "/collection/query/",
+            "wetrocloud.collection_id": collection_id,
+            "wetrocloud.model": "gpt-4o",
+            "wetrocloud.tokens": 2,
+            "wetrocloud.retry_count": 0,
+            "http.response.status_code": 200
+        });
+
+        const [attempt] = attemptSpans();
+        expect(attempt.name).toBe("POST /collection/query/");
+        expect(attempt.kind).toBe(SpanKind.CLIENT);
+        expect(attempt.attributes).toMatchObject({ "http.response.status_code": 200, "wetrocloud.attempt": 0 });
+        expect(attempt.parentSpanContext?.spanId).toBe(span.spanContext().spanId);
+    });
+
+    it('records retries and failures', async () => {
+        server.fail("/collection/query/", { status: 503 }, 2);
+
+        await sdk.queryResource({ collection_id, request_query: "q", stream: false });
+
+        const [span] = operationSpans();
+        expect(span.status.code).toBe(SpanStatusCode.ERROR);
+        expect(span.attributes).toMatchObject({ "http.response.status_code": 503, "wetrocloud.retry_count": 1, "error.type": "ServerError" });
+        expect(span.events.map((e) => e.name)).toEqual(["attempt_failed", "retry", "exception"]);
+
+        // both attempts are children of the one call span
+        expect(attemptSpans().map((a) => [a.attributes["wetrocloud.attempt"], a.attributes["http.response.status_code"], a.status.code]))
+            .toEqual([[0, 503, SpanStatusCode.ERROR], [1, 503, SpanStatusCode.ERROR]]);
+        expect(attemptSpans().every((a) => a.parentSpanContext?.spanId === span.spanContext().spanId)).toBe(true);
+    });
+
+    it('ends streamed spans when the stream ends', async () => {
+        const stream = await sdk.queryResource({ collection_id, request_query: "one two three" }) as IResponseStream;
+        expect(operationSpans()).toHaveLength(0);
+
+        for await (const _chunk of stream) { /* drain */ }
+        await new Promise((resolve) => setImmediate(resolve));
+
+        const [span] = operationSpans();
+        expect(span.attributes).toMatchObject({ "wetrocloud.stream": true, "wetrocloud.stream.chunks": 7, "wetrocloud.tokens": 3 });
+        expect(span.attributes["wetrocloud.stream.time_to_first_chunk_ms"]).toEqual(expect.any(Number));
+    });
+
+    it('groups the requests of methods that make several under one active span', async () => {
+        await sdk.insertResources({
+            collection_id,
+            resources: [{ resource: "a", type: ResourceType.TEXT }, { resource: "b", type: ResourceType.TEXT }]
+        });
+
+        const inserts = operationSpans().filter((span) => span.name === "wetrocloud.insertResource");
+        expect(inserts).toHaveLength(2);
+        expect(inserts.every((span) => span.parentSpanContext?.spanId === parentOf("wetrocloud.insertResources"))).toBe(true);
+    });
+
+    it('groups the models a call falls back across, under the caller\'s span', async () => {
+        server.fail("/collection/query/", { status: 400 }, 1);
+        const tracer = tracerProvider.getTracer("app");
+
+        await tracer.startActiveSpan("handle request", async (span) => {
+            await sdk.queryResource({ collection_id, request_query: "q", models: ["gpt-4o", "llama-3.3-70b"], stream: false });
+            span.end();
+        });
+
+        const queries = operationSpans().filter((span) => span.name === "wetrocloud.queryResource");
+        const fallback = queries.find((span) => !span.attributes["wetrocloud.model"])!;
+        expect(queries.map((span) => span.attributes["wetrocloud.model"])).toEqual(["gpt-4o", "llama-3.3-70b", undefined]);
+        expect(fallback.parentSpanContext?.spanId).toBe(parentOf("handle request"));
+        expect(queries.filter((span) => span !== fallback).every((span) => span.parentSpanContext?.spanId === fallback.spanContext().spanId)).toBe(true);
+    });
+
+    it('records latency and token histograms', async () => {
+        await sdk.insertResource({ collection_id, resource: "a b c", type: ResourceType.TEXT });
+        await sdk.queryResource({ collection_id, request_query: "one two", stream: false });
+
+        const { resourceMetrics } = await reader.collect();
+        const metrics = Object.fromEntries(resourceMetrics.scopeMetrics[0].metrics.map((m) => [m.descriptor.name, m]));
+        const tokens = metrics["wetrocloud.client.tokens"].dataPoints as { attributes: Record<string, unknown>, value: { count: number, sum?: number } }[];
+
+        expect(metrics["wetrocloud.client.duration"].dataPoints).toHaveLength(2);
+        expect(tokens.find((p) => p.attributes["wetrocloud.operation"] === "queryResource")?.value).toMatchObject({ count: 1, sum: 2 });
+    });
+
+    it('is a no-op without a tracer provider', async () => {
+        const plain = createMockClient({ telemetry: true });
+        plain.server.addCollection(collection_id);
+
+        await expect(plain.sdk.queryResource({ collection_id, request_query: "q", stream: false })).resolves.toMatchObject({ success: true });
+    });
+});
@@ -0,0 +1,106 @@
+import { afterAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import { Readable } from "stream";
+import Wetrocloud from "../index.js";
+import { createMockClient, MockWetrocloudServer } from "../testing/index.js";
+import { IErrorMessage, IInsertResourceCollection, ResourceType } from '../types/index.js';
+import { ValidationError } from "../errors.js";
+
+const collection_id = "uploads";
+const dir = mkdtempSync(join(tmpdir(), "wetrocloud-upload-"));
+
+let sdk: Wetrocloud;
+let server: MockWetrocloudServer;
+
+const uploadedFile = () => server.requests[0].body.resource as File;
+
+describe('file uploads', () => {
+    beforeEach(() => {
+        ({ sdk, server } = createMockClient({ maxUploadBytes: 1024 }));
+        server.addCollection(collection_id);
+    });
+
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    it('uploads a local file path as multipart', async () => {
+        const path = join(dir, "handbook.pdf");
+        writeFileSync(path, "%PDF-1.4 fake");
+
+        const res = await sdk.insertResource({ collection_id, resource: path, type: ResourceType.FILE }) as IInsertResourceCollection;
+
+        expect(res.success).toBe(true);
+        expect(uploadedFile().name).toBe("handbook.pdf");
+        expect(uploadedFile().type).toBe("application/pdf");
+        expect(server.requests[0].body.type).toBe("file");
+    });
+
+    it('reads file:// URLs but sends other remote URLs to the API as they are', async () => {
+        const path = join(dir, "notes.txt");
+        writeFileSync(path, "hello");
+
+        await sdk.insertResource({ collection_id, resource: pathToFileURL(path).href, type: ResourceType.FILE });
+        expect(uploadedFile().name).toBe("notes.txt");
+
+        const res = await sdk.insertResource({ collection_id, resource: "s3://bucket/handbook.pdf", type: ResourceType.FILE });
+        expect(res).toMatchObject({ success: true });
+        expect(server.requests[1].body.resource).toBe("s3://bucket/handbook.pdf");
+    });
+
+    it('names a missing local file without sending anything', async () => {
+        const path = join(dir, "missing.pdf");
+
+        const res = await sdk.insertResource({ collection_id, resource: path, type: ResourceType.FILE }) as IErrorMessage;
+
+        expect(res.error).toBeInstanceOf(ValidationError);
+        expect(res.message).toBe(`Cannot read "${path}": no such file or directory`);
+        expect(server.requests).toHaveLength(0);
+    });
+
+    it('uploads a Buffer with an explicit filename', async () => {
+        const progress: number[] = [];
+        await sdk.insertResource({
+            collection_id,
+            resource: Buffer.from("hello world"),
+            type: ResourceType.FILE,
+            filename: "notes.md",
+            onUploadProgress: (p) => progress.push(p.loaded)
+        });
+
+        expect(uploadedFile().name).toBe("notes.md");
+        expect(uploadedFile().type).toBe("text/markdown");
+        expect(await uploadedFile().text()).toBe("hello world");
+        expect(progress[progress.length - 1]).toBeGreaterThan(0);
+    });
+
+    it('uploads a Readable stream', async () => {
+        await sdk.insertResource({
+            collection_id,
+            resource: Readable.from([Buffer.from("a,b\n"), Buffer.from("1,2\n")]),
+            type: ResourceType.FILE,
+            filename: "data.csv"
+        });
+
+        expect(uploadedFile().type).toBe("text/csv");
+        expect(await uploadedFile().text()).toBe("a,b\n1,2\n");
+    });
+
+    it('still sends URLs as JSON', async () => {
+        await sdk.insertResource({ collection_id, resource: "https://example.com/doc.pdf", type: ResourceType.FILE });
+
+        expect(server.requests[0].body.resource).toBe("https://example.com/doc.pdf");
+    });
+
+    it('rejects files above the size limit without sending them', async () => {
+        const res = await sdk.insertResource({
+            collection_id,
+            resource: Buffer.alloc(2048, 1),
+            type: ResourceType.FILE
+        }) as IErrorMessage;
+
+        expect(res.error).toBeInstanceOf(ValidationError);
+        expect(server.requests).toHaveLength(0);
+    });
+});
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import Wetrocloud from "../index.js";
+import { BudgetExceededError } from "../errors.js";
+import { createMockClient, MockWetrocloudServer } from "../testing/index.js";
+import { IErrorMessage, IResponseStream, ResourceType } from '../types/index.js';
+
+const collection_id = "kb";
+
+let sdk: Wetrocloud;
+let server: MockWetrocloudServer;
+
+describe('usage meter', () => {
+    beforeEach(() => {
+        ({ sdk, server } = createMockClient({ retry: false }));
+        server.addCollection(collection_id);
+    });
+
+    it('aggregates tokens per method, collection, model and tag', async () => {
+        await sdk.insertResource({ collection_id, resource: "one two three", type: ResourceType.TEXT, tags: ["ingest"] });
+        await sdk.queryResource({ collection_id, request_query: "a b", stream: false, model: "gpt-4o", tags: ["search", "ingest"] });
+        await sdk.textGeneration({ model: "llama", messages: [{ role: "user", content: "hello world" }] });
+
+        const usage = sdk.usage.snapshot();
+        const inserted = usage.byMethod.insertResource.tokens;
+
+        expect(usage.calls).toBe(3);
+        expect(usage.tokens).toBe(inserted + 2 + 2);
+        expect(usage.byMethod.queryResource).toEqual({ tokens: 2, calls: 1 });
+        expect(usage.byCollection[collection_id].calls).toBe(2);
+        expect(usage.byModel).toMatchObject({ "gpt-4o": { tokens: 2, calls: 1 }, llama: { tokens: 2, calls: 1 }, default: { calls: 1 } });
+        expect(usage.byTag.ingest).toEqual({ tokens: inserted + 2, calls: 2 });
+    });
+
+    it('counts streamed calls once the stream ends', async () => {
+        const stream = await sdk.queryResource({ collection_id, request_query: "one two three" }) as IResponseStream;
+        expect(sdk.usage.snapshot().calls).toBe(0);
+
+        for await (const _chunk of stream) { /* drain */ }
+
+        expect(sdk.usage.snapshot().byMethod.queryResource).toEqual({ tokens: 3, calls: 1 });
+    });
+
+    it('does not count failed calls', async () => {
+        server.fail("/collection/query/", { status: 400 });
+        await sdk.queryResource({ collection_id, request_query: "q", stream: false });
+        expect(sdk.usage.snapshot().calls).toBe(0);
+    });
+
+    it('resets and exports the totals', async () => {
+        await sdk.queryResource({ collection_id, request_query: "a b", stream: false, tags: ['team "a", b'] });
+
+        expect(sdk.usage.toCSV()).toBe([
+            "dimension,key,tokens,calls",
+            "total,,2,1",
+            "method,queryResource,2,1",
+            `collection,${collection_id},2,1`,
+            "model,default,2,1",
+            'tag,"team ""a"", b",2,1',
+            ""
+        ].join("\n"));
+
+        const previous = sdk.usage.reset();
+        expect(previous.tokens).toBe(2);
+        expect(JSON.parse(JSON.stringify(sdk.usage))).toMatchObject({ tokens: 0, calls: 0, byMethod: {} });
+    });
+
+    it('warns once at the soft limit and refuses calls at the hard limit', async () => {
+        const onSoftLimit = jest.fn();
+        ({ sdk, server } = createMockClient({ retry: false, budget: { soft: 2, hard: 4, onSoftLimit } }));
+        server.addCollection(collection_id);
+        const ask = () => sdk.queryResource({ collection_id, request_query: "a b", stream: false });
+
+        await ask();
+        await ask();
+        const refused = await ask() as IErrorMessage;
+
+        expect(onSoftLimit).toHaveBeenCalledTimes(1);
+        expect(refused.error).toBeInstanceOf(BudgetExceededError);
+        expect(refused.error).toMatchObject({ limit: 4, used: 4 });
+        expect(server.requests).toHaveLength(2);
+
+        sdk.usage.setBudget({ hard: 10 });
+        await expect(ask()).resolves.toMatchObject({ success: true });
+    });
+});
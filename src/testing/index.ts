@@ -0,0 +1,28 @@
+import axios from "axios";
+import Wetrocloud from "../index.js";
+import { IWetrocloudOptions } from "../types/index.js";
+import { MockWetrocloudServer } from "./mockServer.js";
+
+export * from "./mockServer.js";
+
+/**
+ * Creates a {@link MockWetrocloudServer} and a `Wetrocloud` client wired to it,
+ * so tests run without network access or a real API secret. Nothing is logged
+ * unless a `logger` or `logLevel` is given.
+ *
+ * @example
+ * const { sdk, server } = createMockClient();
+ * server.addCollection("docs");
+ * const res = await sdk.queryResource({ collection_id: "docs", request_query: "hi", stream: false });
+ */
+export function createMockClient(options: IWetrocloudOptions = {}) {
+    const server = new MockWetrocloudServer();
+    const sdk = new Wetrocloud({
+        apiSecret: "test-secret",
+        retry: { initialDelayMs: 0, jitter: false },
+        ...(options.logger ? {} : { logLevel: "silent" as const }),
+        ...options,
+        axiosInstance: axios.create({ adapter: server.adapter })
+    });
+    return { sdk, server };
+}
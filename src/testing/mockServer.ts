@@ -0,0 +1,363 @@
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { Readable } from "stream";
+import { generateRandomString } from "../utils.js";
+
+export interface MockRequest {
+    method: string,
+    /** Endpoint path without host and version, e.g. `/collection/query/`. */
+    path: string,
+    query: Record<string, string>,
+    headers: Record<string, string>,
+    /** Parsed JSON body, or the fields of a multipart body. */
+    body: Record<string, any>,
+    /** Whether the body asked for a streamed (newline-delimited JSON) response with `stream: true`. */
+    stream: boolean
+}
+
+export interface MockResponse {
+    status?: number,
+    headers?: Record<string, string>,
+    body?: unknown,
+    /** Sent as newline-delimited JSON instead of `body`. */
+    chunks?: unknown[],
+    /** Waits before answering, to exercise timeouts and cancellation. */
+    delayMs?: number,
+    /** Fails without an HTTP response, like a dropped socket (e.g. `"ECONNRESET"`). */
+    networkError?: string
+}
+
+export type MockHandler = (request: MockRequest, server: MockWetrocloudServer) => MockResponse | Promise<MockResponse>;
+
+interface MockCollection {
+    collection_id: string,
+    created_at: string,
+    resources: Map<string, { resource: unknown, type: string }>
+}
+
+const countTokens = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const parseSchema = (schema: unknown) => {
+    if (typeof schema !== "string") return schema;
+    try {
+        return JSON.parse(schema);
+    } catch {
+        return schema;
+    }
+};
+
+/**
+ * In-process stand-in for the WetroCloud API.
+ *
+ * Keeps collections and resources in memory, implements every endpoint the SDK
+ * calls, and lets tests script responses (`respond`) or inject failures (`fail`).
+ * Plug it in through {@link MockWetrocloudServer.adapter} (Axios) or
+ * {@link MockWetrocloudServer.fetch}.
+ *
+ * @example
+ * const server = new MockWetrocloudServer();
+ * const sdk = new Wetrocloud({ apiSecret: "test", axiosInstance: axios.create({ adapter: server.adapter }) });
+ */
+export class MockWetrocloudServer {
+    public readonly collections = new Map<string, MockCollection>();
+    /** Every request received, oldest first. */
+    public readonly requests: MockRequest[] = [];
+
+    private overrides = new Map<string, MockHandler>();
+    private failures: { path: string, response: MockResponse, remaining: number }[] = [];
+    private routes: Record<string, MockHandler> = {
+        "POST /collection/create/": (req) => this.createCollection(req),
+        "GET /collection/all/": () => this.listCollections(),
+        "POST /resource/insert/": (req) => this.insertResource(req),
+        "DELETE /resource/remove/": (req) => this.removeResource(req),
+        "DELETE /collection/delete/": (req) => this.deleteCollection(req),
+        "POST /collection/query/": (req) => this.query(req),
+        "POST /categorize/": (req) => this.categorize(req),
+        "POST /text-generation/": (req) => this.textGeneration(req),
+        "POST /image-to-text/": (req) => this.imageToText(req),
+        "POST /data-extraction/": (req) => this.dataExtraction(req)
+    };
+
+    /**
+     * Replaces the built-in behaviour of an endpoint.
+     * @param {string} path - The endpoint path, e.g. `/collection/query/`.
+     * @param {MockHandler | MockResponse} handler - A fixed response or a function building one.
+     */
+    public respond(path: string, handler: MockHandler | MockResponse): this {
+        this.overrides.set(path, typeof handler === "function" ? handler : () => handler);
+        return this;
+    }
+
+    /**
+     * Makes the next `times` requests to `path` fail. Defaults to a single HTTP 500.
+     * Use `"*"` as path to fail whatever endpoint is called next.
+     */
+    public fail(path: string, response: MockResponse = {}, times = 1): this {
+        this.failures.push({
+            path,
+            response: { status: 500, body: { detail: "Internal server error" }, ...response },
+            remaining: times
+        });
+        return this;
+    }
+
+    /** Clears state, scripted responses, injected failures and the request log. */
+    public reset(): this {
+        this.collections.clear();
+        this.requests.length = 0;
+        this.overrides.clear();
+        this.failures = [];
+        return this;
+    }
+
+    /** Seeds a collection without going through the API. */
+    public addCollection(collection_id: string): this {
+        this.collections.set(collection_id, {
+            collection_id,
+            created_at: new Date().toISOString(),
+            resources: new Map()
+        });
+        return this;
+    }
+
+    /** Resolves a request against the mock state. */
+    public async handle(request: MockRequest): Promise<MockResponse> {
+        this.requests.push(request);
+
+        const failure = this.failures.find((f) => f.path === request.path || f.path === "*");
+        if (failure) {
+            if (--failure.remaining <= 0) this.failures.splice(this.failures.indexOf(failure), 1);
+            return failure.response;
+        }
+
+        const handler = this.overrides.get(request.path) || this.routes[`${request.method} ${request.path}`];
+        if (!handler) return { status: 404, body: { detail: "Not found." } };
+        return handler(request, this);
+    }
+
+    /** Axios adapter serving requests from this mock. */
+    public adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+        const url = new URL((config.baseURL || "http://mock.local") + (config.url || ""), "http://mock.local");
+        const body = await parseBody(config.data);
+        const request: MockRequest = {
+            method: (config.method || "get").toUpperCase(),
+            path: url.pathname.replace(/^\/v\d+/, ""),
+            query: Object.fromEntries(url.searchParams),
+            headers: Object.fromEntries(Object.entries(config.headers?.toJSON?.() || {}).map(([k, v]) => [k.toLowerCase(), String(v)])),
+            body,
+            stream: isStreamed(body)
+        };
+
+        if (config.onUploadProgress && config.data instanceof FormData) {
+            const total = [...config.data.values()].reduce((sum, value) => sum + (typeof value === "string" ? value.length : value.size), 0);
+            config.onUploadProgress({ loaded: total, total, progress: 1, bytes: total, upload: true, lengthComputable: true });
+        }
+
+        const response = await this.handle(request);
+        const signal = config.signal as AbortSignal | undefined;
+        const canceled = () => new AxiosError("canceled", AxiosError.ERR_CANCELED, config);
+        if (config.timeout && (response.delayMs || 0) > config.timeout) {
+            await delay(config.timeout, signal, canceled);
+            throw new AxiosError(`timeout of ${config.timeout}ms exceeded`, AxiosError.ECONNABORTED, config);
+        }
+        await delay(response.delayMs, signal, canceled);
+
+        if (response.networkError) {
+            throw new AxiosError(`mock network error: ${response.networkError}`, response.networkError, config);
+        }
+
+        const status = response.status || 200;
+        const axiosResponse: AxiosResponse = {
+            data: request.stream ? Readable.from(encodeChunks(response)) : response.body,
+            status,
+            statusText: String(status),
+            headers: response.headers || {},
+            config,
+            request: {}
+        };
+
+        if (status >= 400) {
+            axiosResponse.data = response.body;
+            throw new AxiosError(
+                `Request failed with status code ${status}`,
+                status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+                config,
+                {},
+                axiosResponse
+            );
+        }
+        return axiosResponse;
+    };
+
+    /** `fetch` implementation serving requests from this mock. */
+    public fetch = (async (input: string | URL, init: RequestInit = {}) => {
+        const url = new URL(String(input));
+        const headers = Object.fromEntries(new Headers(init.headers).entries());
+        const body = await parseBody(init.body);
+        const request: MockRequest = {
+            method: (init.method || "GET").toUpperCase(),
+            path: url.pathname.replace(/^\/v\d+/, ""),
+            query: Object.fromEntries(url.searchParams),
+            headers,
+            body,
+            stream: isStreamed(body)
+        };
+
+        const response = await this.handle(request);
+        await delay(response.delayMs, init.signal || undefined, () => new DOMException("This operation was aborted", "AbortError"));
+
+        if (response.networkError) {
+            throw Object.assign(new TypeError("fetch failed"), { cause: { code: response.networkError } });
+        }
+
+        const text = request.stream
+            ? encodeChunks(response).join("")
+            : response.body === undefined ? null : JSON.stringify(response.body);
+        return new Response(text, {
+            status: response.status || 200,
+            headers: { "content-type": "application/json", ...(response.headers || {}) }
+        });
+    }) as typeof fetch;
+
+    private createCollection(req: MockRequest): MockResponse {
+        const { collection_id } = req.body;
+        if (!collection_id) return { status: 400, body: { detail: "collection_id is required" } };
+        if (this.collections.has(collection_id)) {
+            return { status: 400, body: { detail: "Collection already exists" } };
+        }
+        this.addCollection(collection_id);
+        return { body: { collection_id, success: true } };
+    }
+
+    private listCollections(): MockResponse {
+        const results = [...this.collections.values()]
+            .reverse()
+            .map(({ collection_id, created_at }) => ({ collection_id, created_at }));
+        return { body: { count: results.length, results } };
+    }
+
+    private insertResource(req: MockRequest): MockResponse {
+        const { collection_id, resource, type } = req.body;
+        const collection = this.collections.get(collection_id);
+        if (!collection) return { status: 404, body: { detail: "Collection not found" } };
+        if (!resource || !type) return { status: 400, body: { detail: "resource and type are required" } };
+
+        const resource_id = generateRandomString(12);
+        collection.resources.set(resource_id, { resource, type });
+        const token = resource instanceof Blob ? Math.ceil(resource.size / 4) : countTokens(String(resource));
+        return { body: { resource_id, success: true, token } };
+    }
+
+    private removeResource(req: MockRequest): MockResponse {
+        const { collection_id, resource_id } = req.body;
+        const collection = this.collections.get(collection_id);
+        if (!collection || !collection.resources.delete(resource_id)) {
+            return { status: 404, body: { detail: "Resource not found" } };
+        }
+        return { body: { success: true, message: "Resource removed successfully" } };
+    }
+
+    private deleteCollection(req: MockRequest): MockResponse {
+        if (!this.collections.delete(req.body.collection_id)) {
+            return { status: 404, body: { detail: "Collection not found" } };
+        }
+        return { body: { success: true, message: "Collection deleted successfully" } };
+    }
+
+    private query(req: MockRequest): MockResponse {
+        const { collection_id, request_query, message, json_schema } = req.body;
+        if (!this.collections.has(collection_id)) return { status: 404, body: { detail: "Collection not found" } };
+
+        const question = String(message ?? request_query ?? "");
+        const answer = json_schema ? parseSchema(json_schema) : `Mock answer to: ${question}`;
+        return this.answer(req, answer, countTokens(question));
+    }
+
+    private categorize(req: MockRequest): MockResponse {
+        const { resource, categories = [], json_schema } = req.body;
+        const text = String(resource).toLowerCase();
+        const category = categories.find((c: string) => text.includes(c.toLowerCase())) ?? categories[0];
+        const schema = parseSchema(json_schema);
+        const key = schema && typeof schema === "object" ? Object.keys(schema)[0] || "label" : "label";
+        return this.answer(req, { [key]: category }, countTokens(text));
+    }
+
+    private textGeneration(req: MockRequest): MockResponse {
+        const messages: { role: string, content: string }[] = parseSchema(req.body.messages) || [];
+        const last = [...messages].reverse().find((m) => m.role === "user")?.content || "";
+        return this.answer(req, `Mock completion for: ${last}`, countTokens(last));
+    }
+
+    private imageToText(req: MockRequest): MockResponse {
+        const { image_url, request_query, json_schema } = req.body;
+        const schema = parseSchema(json_schema);
+        if (schema) return this.answer(req, schema, countTokens(String(request_query)));
+        // data URIs are described by their type, not echoed back whole
+        const image = String(image_url).replace(/^data:([^;,]*)[^,]*,.*$/s, "a $1 data URI");
+        return this.answer(req, `Mock description of ${image}`, countTokens(String(request_query)));
+    }
+
+    private dataExtraction(req: MockRequest): MockResponse {
+        const { website, json_schema } = req.body;
+        if (!website) return { status: 400, body: { detail: "website is required" } };
+        return this.answer(req, parseSchema(json_schema), 10);
+    }
+
+    /** Builds a JSON answer, or word-by-word chunks ending with the token count when streamed. */
+    private answer(req: MockRequest, response: unknown, tokens: number): MockResponse {
+        if (req.stream && typeof response === "string") {
+            const words = response.split(/(?<= )/);
+            return {
+                chunks: [
+                    ...words.map((word) => ({ response: word })),
+                    { response: "", tokens, success: true }
+                ]
+            };
+        }
+        if (req.stream) return { chunks: [{ response, tokens, success: true }] };
+        return { body: { response, tokens, success: true } };
+    }
+}
+
+/** JSON bodies carry `stream: true`, multipart ones the string `"true"`. */
+function isStreamed(body: Record<string, any>): boolean {
+    return body.stream === true || body.stream === "true";
+}
+
+function encodeChunks(response: MockResponse): string[] {
+    if (!response.chunks) return [JSON.stringify(response.body ?? null)];
+    return response.chunks.map((chunk) => (typeof chunk === "string" ? chunk : JSON.stringify(chunk)) + "\n");
+}
+
+async function parseBody(data: unknown): Promise<Record<string, any>> {
+    if (!data) return {};
+    if (typeof data === "string") {
+        try {
+            return JSON.parse(data);
+        } catch {
+            return { raw: data };
+        }
+    }
+    if (typeof FormData !== "undefined" && data instanceof FormData) {
+        const fields: Record<string, any> = {};
+        for (const [key, value] of data.entries()) fields[key] = value;
+        return fields;
+    }
+    if (typeof data === "object") return data as Record<string, any>;
+    return {};
+}
+
+function delay(ms: number | undefined, signal: AbortSignal | undefined, abortError: () => unknown): Promise<void> {
+    if (!ms) return signal?.aborted ? Promise.reject(abortError()) : Promise.resolve();
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        if (signal?.aborted) return onAbort();
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
@@ -0,0 +1,96 @@
+import type { WetrocloudError } from "../errors.js";
+import type { UploadableResource } from "../upload.js";
+import type { SchemaInput } from "../schema.js";
+import type { IRequestOptions, JsonSchemaExample, ResourceType } from "./index.js";
+
+export interface IBulkInsertItem<M = unknown> {
+    resource: string | UploadableResource,
+    type: ResourceType,
+    filename?: string,
+    mime_type?: string,
+    /** Your own data for this item, echoed back in its result. Not sent to the API. */
+    metadata?: M
+}
+
+export type IBulkInsertResult<M = unknown> = {
+    /** Position of the item in the `resources` array. */
+    index: number,
+    metadata?: M
+} & (
+        | { status: "fulfilled", resource_id: string, tokens: number }
+        | { status: "rejected", error: WetrocloudError }
+        /** Never attempted because the batch stopped on an earlier failure. */
+        | { status: "skipped" }
+    );
+
+export interface IBulkInsertProgress<M = unknown> {
+    completed: number,
+    total: number,
+    succeeded: number,
+    failed: number,
+    /** The item that just finished. */
+    result: IBulkInsertResult<M>
+}
+
+export interface IBulkInsertReport<M = unknown> {
+    /** One entry per input item, in input order. */
+    results: IBulkInsertResult<M>[],
+    succeeded: number,
+    failed: number,
+    skipped: number,
+    /** Sum of the `token` field of every successful insert. */
+    tokens: number
+}
+
+export interface ICategorizeItem<M = unknown> {
+    resource: string,
+    type: ResourceType,
+    /** Your own data for this item, echoed back in its result. Not sent to the API. */
+    metadata?: M
+}
+
+export type ICategorizeResult<T = unknown, M = unknown> = {
+    /** Position of the item in the `resources` array. */
+    index: number,
+    resource: string,
+    metadata?: M
+} & (
+        | {
+            status: "fulfilled",
+            /** The category the item was put in, or `null` when the answer names none of `categories`. */
+            label: string | null,
+            response: T,
+            tokens: number
+        }
+        | { status: "rejected", error: WetrocloudError }
+        /** Never attempted because the batch stopped early. */
+        | { status: "skipped" }
+    );
+
+export interface ICategorizeProgress<T = unknown, M = unknown> {
+    completed: number,
+    total: number,
+    /** The item that just finished. */
+    result: ICategorizeResult<T, M>
+}
+
+export interface ICategorizeResourcesParams<T = unknown, M = unknown> extends IRequestOptions {
+    resources: ICategorizeItem<M>[],
+    categories: string[],
+    prompt: string,
+    /** Shape of each answer. Defaults to `{ label: "string" }` when no `schema` is given. */
+    json_schema?: JsonSchemaExample,
+    /** Zod schema or JSON Schema each answer is validated against. */
+    schema?: SchemaInput<T>,
+    /**
+     * Field of the answer holding the category. By default the first string in the
+     * answer equal to one of `categories` (ignoring case) is used.
+     */
+    labelKey?: string,
+    /** Maximum number of calls in flight. Defaults to 4. */
+    concurrency?: number,
+    /** Stop starting new calls after the first failure. Defaults to `false`. */
+    stopOnError?: boolean,
+    /** Called after each item completes. */
+    onProgress?: (progress: ICategorizeProgress<T, M>) => void
+}
@@ -0,0 +1,35 @@
+/**
+ * Key/value store behind the response cache. Methods may be sync or async,
+ * so Redis-like clients can be adapted in a few lines. Values are plain
+ * JSON-serializable objects.
+ */
+export interface ICacheStore {
+    get(key: string): unknown | Promise<unknown>,
+    /** `ttl` is in milliseconds; `undefined` means the entry does not expire. */
+    set(key: string, value: unknown, ttl?: number): void | Promise<void>,
+    delete(key: string): void | Promise<void>,
+    clear?(): void | Promise<void>
+}
+
+export interface ICacheOptions {
+    /** Where entries are kept. Defaults to an in-memory LRU store. */
+    store?: ICacheStore,
+    /** How long an answer is reused, in milliseconds. Defaults to 5 minutes. */
+    ttl?: number,
+    /** Capacity of the default in-memory store. Defaults to 500 entries. */
+    maxEntries?: number,
+    /** Prefix separating clients (e.g. API accounts) that share one store. */
+    namespace?: string
+}
+
+/** Per-call cache control: `false` bypasses the cache, `{ ttl }` overrides how long the answer is kept. */
+export type CacheControl = boolean | { ttl?: number };
+
+/** Present on results of cached calls. */
+export interface ICacheInfo {
+    /** `true` when the answer came from the cache and no tokens were spent. */
+    hit: boolean,
+    key: string,
+    /** Milliseconds since the answer was stored; `0` on a miss. */
+    age: number
+}
@@ -0,0 +1,75 @@
+import type { WetrocloudError } from "../errors.js";
+import type { SchemaInput } from "../schema.js";
+import type { JsonSchemaExample } from "./infer.types.js";
+import type { IRequestOptions } from "./options.types.js";
+
+/** Pages `{page}` numbers substituted into `pattern`, e.g. `https://shop.example/products?page={page}`. */
+export interface IPagination {
+    pattern: string,
+    /** First page number. Defaults to 2, the start URL being page 1. */
+    from?: number,
+    /** Last page number, included. */
+    to: number,
+    /** Stop requesting further pages once a page yields no records. Defaults to `true`. */
+    stopWhenEmpty?: boolean
+}
+
+/**
+ * Pages to extract from: any mix of a URL list, a sitemap and a start URL with a
+ * pagination pattern. URLs are de-duplicated (ignoring `#fragments`) in that order.
+ */
+export interface IExtractPagesParams<T = unknown> extends IRequestOptions {
+    urls?: string[],
+    /** URL of a `sitemap.xml`; sitemap indexes are followed. */
+    sitemap?: string,
+    start_url?: string,
+    pagination?: IPagination,
+    /** Keeps only the URLs it returns `true` for. */
+    filter?: (url: string) => boolean,
+    /** Maximum number of pages extracted. */
+    maxPages?: number,
+    json_schema?: JsonSchemaExample,
+    schema?: SchemaInput<T>,
+    /** Maximum number of pages extracted at once. Defaults to 4. */
+    concurrency?: number,
+    /** Used to download the sitemap. Defaults to the global `fetch`. */
+    fetch?: typeof fetch,
+    /** Called after each page completes. */
+    onProgress?: (progress: IExtractPagesProgress) => void
+}
+
+/** One extracted record and the page it came from. */
+export interface IExtractedRecord<T> {
+    source_url: string,
+    data: T
+}
+
+export type IExtractPageResult = {
+    url: string
+} & (
+        | { status: "fulfilled", records: number, tokens: number }
+        | { status: "rejected", error: WetrocloudError }
+        /** Never requested: the job was cancelled or pagination stopped on an empty page. */
+        | { status: "skipped" }
+    );
+
+export interface IExtractPagesProgress {
+    completed: number,
+    total: number,
+    /** The page that just finished. */
+    page: IExtractPageResult
+}
+
+export interface IExtractPagesReport<T> {
+    /** Every record, in page order, then in the order the page listed them. */
+    records: IExtractedRecord<T>[],
+    /** One entry per page, in page order. */
+    pages: IExtractPageResult[],
+    succeeded: number,
+    failed: number,
+    skipped: number,
+    tokens: number
+}
+
+/** The record type of a response: arrays are split into their items. */
+export type ExtractedItem<R> = R extends readonly (infer E)[] ? E : R;
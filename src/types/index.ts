@@ -1,5 +1,16 @@
 
 export * from "./response.types.js"
+export * from "./options.types.js"
+export * from "./bulk.types.js"
+export * from "./params.types.js"
+export * from "./infer.types.js"
+export * from "./usage.types.js"
+export * from "./middleware.types.js"
+export * from "./cache.types.js"
+export * from "./rateLimit.types.js"
+export * from "./sync.types.js"
+export * from "./extraction.types.js"
+export * from "./models.types.js"
 
 export enum ResourceType {
     WEB = "web",
@@ -0,0 +1,23 @@
+/** A `json_schema` example as the API accepts it, e.g. `{ title: "string", tags: ["string"] }`. */
+export type JsonSchemaExample = object;
+
+/**
+ * The type described by a `json_schema` example.
+ *
+ * Leaf values name their type (`"number"`, `"integer"`, `"boolean"`, `"null"`,
+ * optionally followed by a description in parentheses); any other string,
+ * including `""`, is a string. Numbers and booleans used as examples keep
+ * their type, a one-element array describes a list of that element.
+ *
+ * @example
+ * type Post = InferJsonSchema<{ title: "string", count: "number", tags: ["string"] }>;
+ * // { title: string, count: number, tags: string[] }
+ */
+export type InferJsonSchema<S> =
+    S extends "number" | "integer" | `number (${string}` | `integer (${string}` | number ? number
+    : S extends "boolean" | `boolean (${string}` | boolean ? boolean
+    : S extends "null" ? null
+    : S extends string ? string
+    : S extends readonly (infer Item)[] ? InferJsonSchema<Item>[]
+    : S extends object ? { -readonly [K in keyof S]: InferJsonSchema<S[K]> }
+    : unknown;
@@ -0,0 +1,54 @@
+import type { WetrocloudError } from "../errors.js";
+import type { IStreamChunk } from "./response.types.js";
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+/**
+ * Destination for the SDK's log lines. `console` fits as is; for pino or winston,
+ * forward `(message, meta)` to the library's own argument order.
+ */
+export interface ILogger {
+    debug(message: string, meta?: Record<string, unknown>): void,
+    info(message: string, meta?: Record<string, unknown>): void,
+    warn(message: string, meta?: Record<string, unknown>): void,
+    error(message: string, meta?: Record<string, unknown>): void
+}
+
+/** The call a middleware hook is invoked for. Shared by every attempt of the call. */
+export interface IRequestContext {
+    /** Unique id of the call, e.g. to send as a correlation id. */
+    id: string,
+    /** The `Wetrocloud` method that made the call, e.g. `"queryResource"`. */
+    operation?: string,
+    method: string,
+    /** Endpoint path, e.g. `/collection/query/`. */
+    url: string,
+    /** Headers sent with the request; `onRequest` may add or change them. */
+    headers: Record<string, string>,
+    data?: unknown,
+    /** Whether the answer is streamed. */
+    stream: boolean,
+    /** `0` for the first attempt, incremented on every retry. */
+    attempt: number,
+    /** `Date.now()` when the call started. */
+    startedAt: number,
+    /** HTTP status of the successful response, set before `onResponse`. */
+    status?: number
+}
+
+/**
+ * Hooks run around every request sent by `AxiosAPI`, in registration order.
+ * Hooks may be async; a throwing hook fails the call.
+ */
+export interface IMiddleware {
+    /** Before every attempt. */
+    onRequest?(context: IRequestContext): void | Promise<void>,
+    /** After a successful response; returning a value other than `undefined` replaces the response. */
+    onResponse?(context: IRequestContext, response: unknown): unknown | Promise<unknown>,
+    /** After every failed attempt, including the ones that are retried (`willRetry`). */
+    onError?(context: IRequestContext, error: WetrocloudError, info: { willRetry: boolean }): void | Promise<void>,
+    /** For every chunk of a streamed response. */
+    onStreamChunk?(context: IRequestContext, chunk: IStreamChunk<unknown>): void,
+    /** Once a streamed response ends, fails or is abandoned by its consumer. */
+    onStreamEnd?(context: IRequestContext, result: { tokens: number, error?: WetrocloudError }): void
+}
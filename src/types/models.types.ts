@@ -0,0 +1,45 @@
+/** Models listed in the SDK's catalog. */
+export type KnownModelId =
+    | "gpt-4o"
+    | "gpt-4o-mini"
+    | "gpt-4.5-preview"
+    | "gpt-4-turbo"
+    | "gpt-4"
+    | "gpt-3.5-turbo"
+    | "o1"
+    | "o1-mini"
+    | "o3-mini"
+    | "claude-3-7-sonnet-latest"
+    | "claude-3-5-sonnet-latest"
+    | "claude-3-5-haiku-latest"
+    | "claude-3-opus-latest"
+    | "gemini-2.0-flash"
+    | "gemini-1.5-pro"
+    | "llama-3.3-70b"
+    | "llama-3.1-8b-instant"
+    | "mixtral-8x7b-32768"
+    | "deepseek-chat"
+    | "deepseek-reasoner";
+
+/**
+ * A model id. Known ids autocomplete; any other string is accepted too, for
+ * models added to WetroCloud after this SDK version.
+ */
+export type ModelId = KnownModelId | (string & {});
+
+export interface IModelCapabilities {
+    /** Answers can be streamed. */
+    streaming: boolean,
+    /** Understands images. */
+    vision: boolean,
+    /** Can answer with JSON matching a `json_schema`. */
+    json: boolean
+}
+
+export interface IModelInfo {
+    id: KnownModelId,
+    /** Other ids the API accepts for the same model. */
+    aliases?: string[],
+    provider: "openai" | "anthropic" | "google" | "meta" | "mistral" | "deepseek",
+    capabilities: IModelCapabilities
+}
@@ -0,0 +1,78 @@
+import type { AxiosInstance, AxiosProxyConfig } from "axios";
+import type { RetryOptions } from "../retry.js";
+import type { IUsageBudget } from "./usage.types.js";
+import type { ILogger, IMiddleware, LogLevel } from "./middleware.types.js";
+import type { ITelemetryOptions } from "../telemetry.js";
+import type { ICacheOptions } from "./cache.types.js";
+import type { IRateLimitOptions } from "./rateLimit.types.js";
+import type { ModelId } from "./models.types.js";
+
+export interface IWetrocloudOptions {
+    /** Your WetroCloud API secret. Falls back to the `WETROCLOUD_API_KEY` environment variable. */
+    apiSecret?: string,
+    /** Reject failed calls with a typed `WetrocloudError` instead of resolving to `{ message }`. */
+    throwOnError?: boolean,
+    /** Retry policy for transient failures, or `false` to disable retries. */
+    retry?: Partial<RetryOptions> | false,
+    /** API host, e.g. a staging environment or a local stand-in server. Defaults to `https://api.wetrocloud.com`. */
+    baseURL?: string,
+    /** API version path segment appended to `baseURL`. Defaults to `"v1"`; pass `""` to omit it. */
+    apiVersion?: string,
+    /** Default request timeout in milliseconds. `0` (the default) means no timeout. */
+    timeout?: number,
+    /** Extra headers sent with every request. */
+    headers?: Record<string, string>,
+    /** Overrides the `User-Agent` header. */
+    userAgent?: string,
+    /** Overrides the `referrer` query parameter sent with every request. Defaults to `"node_sdk"`. */
+    referrer?: string,
+    /** Proxy used by the default Node transport. */
+    proxy?: AxiosProxyConfig | false,
+    /** Custom Axios instance (interceptors, agents, adapters...) used instead of the built-in one. */
+    axiosInstance?: AxiosInstance,
+    /**
+     * A `fetch` implementation; when set, requests go through fetch instead of Axios.
+     * Browsers, workers and edge runtimes use the global `fetch` by default.
+     */
+    fetch?: typeof fetch,
+    /** Largest file `insertResource` will upload, in bytes. Defaults to 50 MB. */
+    maxUploadBytes?: number,
+    /** Largest local image `imageToText` will send, in bytes. Defaults to 20 MB. */
+    maxImageBytes?: number,
+    /** Model used by `queryResource` and `textGeneration` calls that do not pick one. */
+    model?: ModelId,
+    /** Reject model ids missing from the SDK's catalog instead of only logging a warning. Defaults to `false`. */
+    strictModels?: boolean,
+    /** Soft and hard token limits across every call made by this client. */
+    budget?: IUsageBudget,
+    /** Where log lines go. Defaults to `console`. The API secret is always masked. */
+    logger?: ILogger,
+    /** Lowest level that is logged. Defaults to `"warn"`; `"debug"` logs every request. */
+    logLevel?: LogLevel,
+    /** Hooks run around every request, in order. More can be added with `sdk.use()`. */
+    middleware?: IMiddleware[],
+    /**
+     * OpenTelemetry spans and histograms for every call. `true` uses the global
+     * tracer and meter of `@opentelemetry/api` (a no-op when it is not installed).
+     */
+    telemetry?: boolean | ITelemetryOptions,
+    /**
+     * Reuse answers of identical non-streamed `queryResource`, `extract` and `categorize`
+     * calls. `true` keeps them in memory for 5 minutes.
+     */
+    cache?: boolean | ICacheOptions,
+    /** Client-side limits on request rate and concurrency; excess requests wait in a priority queue. */
+    rateLimit?: IRateLimitOptions
+}
+
+/** Options every SDK method accepts alongside its own parameters. */
+export interface IRequestOptions {
+    /** Timeout in milliseconds for this call, overriding the client-wide `timeout`. */
+    timeout?: number,
+    /** Cancels the call (and tears down its stream) when aborted. */
+    signal?: AbortSignal,
+    /** Labels the call's tokens in `sdk.usage` (`byTag`). */
+    tags?: string[],
+    /** Position in the `rateLimit` queue: higher values are sent first. Defaults to `0`. */
+    priority?: number
+}
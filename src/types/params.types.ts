@@ -0,0 +1,90 @@
+import type { ImageInput, ImageTransform } from "../image.js";
+import type { SchemaInput } from "../schema.js";
+import type { JsonSchemaExample } from "./infer.types.js";
+import type { IRequestOptions } from "./options.types.js";
+import type { ModelId } from "./models.types.js";
+import type { CacheControl } from "./cache.types.js";
+import type { ResourceType } from "./index.js";
+
+export interface IChatMessage {
+    role: "user" | "system",
+    content: string
+}
+
+export interface ITextGenerationMessage {
+    role: "user" | "system" | "assistant",
+    content: string
+}
+
+export interface IChatParams extends IRequestOptions {
+    collection_id: string,
+    message: string,
+    chat_history: IChatMessage[],
+    /** Stream the answer as it is generated. Defaults to `false`. */
+    stream?: boolean
+}
+
+export interface ITextGenerationParams extends IRequestOptions {
+    /** Required unless the client has a default `model` or `models` is given. */
+    model?: ModelId,
+    /** Models tried in order, each after the previous one failed. */
+    models?: ModelId[],
+    messages: ITextGenerationMessage[],
+    /** Stream the answer as it is generated. Defaults to `false`. */
+    stream?: boolean
+}
+
+export interface IQueryResourceParams<T = unknown> extends IRequestOptions {
+    collection_id: string,
+    request_query: string,
+    model?: ModelId,
+    /** Models tried in order, each after the previous one failed. */
+    models?: ModelId[],
+    /** Example of the answer's shape, e.g. `{ title: "string", tags: ["string"] }`. */
+    json_schema?: JsonSchemaExample,
+    /** Zod schema or JSON Schema the answer is validated against. */
+    schema?: SchemaInput<T>,
+    /** Re-ask with the validation errors when the answer does not match `schema`. */
+    repair?: boolean | number,
+    json_schema_rules?: string,
+    /** Stream the answer as it is generated. Defaults to `true`, or `false` when `schema` is given. */
+    stream?: boolean,
+    /** Cache control for this call, when the client has a cache. Streamed answers are never cached. */
+    cache?: CacheControl
+}
+
+export interface ICategorizeParams<T = unknown> extends IRequestOptions {
+    resource: string,
+    type: ResourceType,
+    categories: string[],
+    prompt: string,
+    json_schema?: JsonSchemaExample,
+    schema?: SchemaInput<T>,
+    /** Re-ask with the validation errors added to `prompt` when the answer does not match `schema`. */
+    repair?: boolean | number,
+    /** Cache control for this call, when the client has a cache. */
+    cache?: CacheControl
+}
+
+export interface IExtractParams<T = unknown> extends IRequestOptions {
+    website_url: string,
+    json_schema?: JsonSchemaExample,
+    schema?: SchemaInput<T>,
+    /** Re-ask with the validation errors sent as `json_schema_rules` when the answer does not match `schema`. */
+    repair?: boolean | number,
+    /** Cache control for this call, when the client has a cache. */
+    cache?: CacheControl
+}
+
+export interface IImageToTextParams<T = unknown> extends IRequestOptions {
+    /** A public image URL. */
+    image_url?: string,
+    /** A URL, data URI, local path (Node only), `Uint8Array`/`Buffer` or `Blob`. */
+    image?: ImageInput,
+    request_query: string,
+    json_schema?: JsonSchemaExample,
+    json_schema_rules?: string,
+    schema?: SchemaInput<T>,
+    /** Called with every local image before it is sent, e.g. to downscale it. */
+    transformImage?: ImageTransform
+}
@@ -0,0 +1,35 @@
+/** Limits applied to one bucket of requests. */
+export interface IRateLimitBucket {
+    /** Requests allowed to start per `interval`. Unlimited when omitted. */
+    requestsPerInterval?: number,
+    /** Length of the sliding window in milliseconds. Defaults to 1000. */
+    interval?: number,
+    /** Requests allowed in flight at once (a stream counts until it ends). Unlimited when omitted. */
+    maxConcurrent?: number
+}
+
+export interface IRateLimitOptions extends IRateLimitBucket {
+    /**
+     * Endpoints with their own bucket, keyed by path (e.g. `"/collection/query/"`).
+     * Their requests only count against that bucket; every other request shares the default one.
+     */
+    endpoints?: Record<string, IRateLimitBucket>
+}
+
+export interface IRateLimitBucketStats {
+    /** Requests waiting for a slot. */
+    queued: number,
+    /** Requests holding a slot. */
+    inFlight: number,
+    /** How long the oldest queued request has been waiting, in milliseconds. */
+    oldestWaitMs: number,
+    /** Average time requests waited for a slot, in milliseconds. */
+    averageWaitMs: number,
+    /** Longest time a request waited for a slot, in milliseconds. */
+    maxWaitMs: number
+}
+
+export interface IRateLimitStats extends IRateLimitBucketStats {
+    /** Per bucket: `"default"` and each endpoint given in `endpoints`. */
+    buckets: Record<string, IRateLimitBucketStats>
+}
@@ -1,3 +1,7 @@
+import { WetrocloudError } from "../errors.js";
+import type { ICacheInfo } from "./cache.types.js";
+import type { QueryStream } from "../queryStream.js";
+
 
 // export 
 
@@ -13,6 +17,8 @@ export interface IListCollection {
 
 export interface IErrorMessage {
     message: string,
+    /** The typed error behind `message`. */
+    error?: WetrocloudError
 }
 
 export interface IInsertResourceCollection {
@@ -27,17 +33,37 @@ export interface IQueryResourceCollectionDynamic<T> {
     success: boolean
 }
 
-export interface ICatergorizeResource<T> extends IQueryResourceCollectionDynamic<T> { }
+/** A non-streamed answer whose `response` has the type inferred from `json_schema` or `schema`. */
+export interface IStructuredResponse<T> {
+    response: T,
+    tokens: number,
+    success: boolean,
+    /** Whether the answer came from the response cache, when caching is enabled. */
+    cache?: ICacheInfo
+}
+
+export interface ICatergorizeResource<T> extends IStructuredResponse<T> { }
 export interface IGenericResponse {
     response?: string,
     message?: string,
     success: boolean
 }
 
-export interface IDataExtraction<T> {
-    response: {
-        [x: string]: T | T[]
-    }, 
-    tokens: number,
-    success: boolean
-}
\ No newline at end of file
+export interface IDataExtraction<T> extends IStructuredResponse<T> { }
+export interface IImageToText<T> extends IStructuredResponse<T> { }
+/** One line of a streamed response. */
+export interface IStreamChunk<T = string> {
+    /** The text delta, or the structured value when a `json_schema` was given. */
+    response: T | T[] | string,
+    /** Total tokens used, present on the final chunk. */
+    tokens?: number,
+    success?: boolean,
+    /** `true` on the last chunk of the stream. */
+    done?: boolean
+}
+
+/**
+ * Returned by the streaming variants of `queryResource`, `chat` and `textGeneration`:
+ * an async iterator of chunks that also emits events, see {@link QueryStream}.
+ */
+export type IResponseStream<T = string> = QueryStream<T>;
@@ -0,0 +1,63 @@
+import type { WetrocloudError } from "../errors.js";
+import type { IRequestOptions } from "./options.types.js";
+
+export interface ISyncDirectoryParams extends IRequestOptions {
+    collection_id: string,
+    /** Directory mirrored into the collection. */
+    dir: string,
+    /** Globs of files to sync, relative to `dir`. A pattern without `/` matches file names at any depth. Defaults to every file. */
+    include?: string[],
+    /** Globs of files to leave out, same syntax as `include`. */
+    exclude?: string[],
+    /** Manifest file path. Defaults to `.wetrocloud-sync.json` inside `dir`. */
+    manifest?: string,
+    /** Only compute the plan; nothing is sent and the manifest is not written. */
+    dryRun?: boolean,
+    /** Files processed at once. Defaults to 4. */
+    concurrency?: number,
+    /** Called after each file is inserted, replaced, removed or failed. */
+    onProgress?: (progress: ISyncProgress) => void
+}
+
+/** What `syncDirectory` does (or, with `dryRun`, would do), by path relative to `dir`. */
+export interface ISyncPlan {
+    /** New files, inserted. */
+    insert: string[],
+    /** Changed files, deleted and inserted again. */
+    replace: string[],
+    /** Files gone from `dir`, deleted from the collection. */
+    remove: string[],
+    unchanged: string[]
+}
+
+export interface ISyncProgress {
+    path: string,
+    action: "insert" | "replace" | "remove",
+    completed: number,
+    total: number,
+    error?: WetrocloudError
+}
+
+export interface ISyncReport {
+    plan: ISyncPlan,
+    dryRun: boolean,
+    /** Files whose action failed; they are retried by the next sync. */
+    failed: { path: string, action: ISyncProgress["action"], error: WetrocloudError }[],
+    /** Tokens used by the inserts. */
+    tokens: number
+}
+
+/** One synced file in the manifest. */
+export interface ISyncManifestEntry {
+    /** SHA-256 of the file's content, hex encoded. */
+    hash: string,
+    resource_id: string,
+    syncedAt: string
+}
+
+/** Maps each synced path to its content hash and `resource_id`. Written after every completed action. */
+export interface ISyncManifest {
+    version: 1,
+    collection_id: string,
+    files: Record<string, ISyncManifestEntry>
+}
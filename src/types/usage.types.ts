@@ -0,0 +1,36 @@
+/** Tokens and number of calls aggregated for one key. */
+export interface IUsageTotals {
+    tokens: number,
+    calls: number
+}
+
+/** What a single call is accounted under. */
+export interface IUsageRecord {
+    /** The SDK method, e.g. `"queryResource"`. */
+    method: string,
+    collection_id?: string,
+    model?: string,
+    tags?: string[],
+    tokens: number
+}
+
+/** Aggregated usage since the meter was created or last reset. */
+export interface IUsageSnapshot extends IUsageTotals {
+    /** ISO timestamp of the start of the period. */
+    since: string,
+    byMethod: Record<string, IUsageTotals>,
+    byCollection: Record<string, IUsageTotals>,
+    /** Calls without an explicit model are counted under `"default"`. */
+    byModel: Record<string, IUsageTotals>,
+    byTag: Record<string, IUsageTotals>
+}
+
+/** Token limits enforced across every call made by a client. */
+export interface IUsageBudget {
+    /** Once reached, `onSoftLimit` is called (once per period); calls still go through. */
+    soft?: number,
+    /** Once reached, calls are refused with a `BudgetExceededError`. */
+    hard?: number,
+    /** Called when the soft limit is first reached. Defaults to a warning on the client's logger. */
+    onSoftLimit?: (usage: IUsageSnapshot) => void
+}
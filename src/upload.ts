@@ -0,0 +1,138 @@
+import { ValidationError } from "./errors.js";
+import { localFileError } from "./utils.js";
+
+/** Anything `insertResource` can upload as a file. */
+export type UploadableResource = Uint8Array | Blob | AsyncIterable<Uint8Array | string>;
+
+export interface IUploadProgress {
+    /** Bytes sent so far. */
+    loaded: number,
+    /** Total bytes to send, when known. */
+    total?: number,
+    /** `loaded / total`, between 0 and 1, when the total is known. */
+    progress?: number
+}
+
+const MIME_TYPES: Record<string, string> = {
+    pdf: "application/pdf",
+    doc: "application/msword",
+    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    ppt: "application/vnd.ms-powerpoint",
+    pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    xls: "application/vnd.ms-excel",
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    txt: "text/plain",
+    md: "text/markdown",
+    csv: "text/csv",
+    html: "text/html",
+    htm: "text/html",
+    json: "application/json",
+    xml: "application/xml",
+    epub: "application/epub+zip",
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    webp: "image/webp",
+    bmp: "image/bmp",
+    tif: "image/tiff",
+    tiff: "image/tiff"
+};
+
+export const DEFAULT_MIME_TYPE = "application/octet-stream";
+
+/** Guesses a MIME type from a file name's extension. */
+export function mimeTypeFromFilename(filename?: string): string {
+    const extension = filename?.split(".").pop()?.toLowerCase();
+    return (extension && MIME_TYPES[extension]) || DEFAULT_MIME_TYPE;
+}
+
+export function basename(path: string): string {
+    return path.split(/[\\/]/).pop() || path;
+}
+
+/**
+ * A string resource of type `file` without a URL scheme, or with `file://`, is treated
+ * as a local path; other URLs (`https://`, `s3://`, `gs://`...) are sent to the API as they are.
+ */
+export function isLocalFilePath(resource: unknown, type: string): resource is string {
+    return typeof resource === "string" && type === "file"
+        && (/^file:\/\//i.test(resource) || !/^[a-z][a-z\d+.-]*:\/\//i.test(resource));
+}
+
+export function isUploadable(resource: unknown): resource is UploadableResource {
+    return resource instanceof Uint8Array
+        || (typeof Blob !== "undefined" && resource instanceof Blob)
+        || (typeof resource === "object" && resource !== null && Symbol.asyncIterator in resource);
+}
+
+/**
+ * Reads a file path, buffer, Blob or stream into a `Blob` ready for a multipart
+ * upload, enforcing `maxBytes`.
+ */
+export async function toUploadBlob(resource: string | UploadableResource, {
+    filename,
+    mime_type,
+    maxBytes
+}: {
+    filename?: string,
+    mime_type?: string,
+    maxBytes: number
+}): Promise<{ blob: Blob, filename: string }> {
+    let blob: Blob;
+
+    if (typeof resource === "string") {
+        const path = /^file:\/\//i.test(resource) ? new URL(resource) : resource;
+        const { readFile, stat } = await loadFs();
+        try {
+            assertSize((await stat(path)).size, maxBytes);
+            blob = new Blob([await readFile(path)]);
+        } catch (e) {
+            if (e instanceof ValidationError) throw e;
+            throw localFileError(e, resource);
+        }
+        filename = filename || basename(typeof path === "string" ? path : decodeURIComponent(path.pathname));
+    } else if (resource instanceof Uint8Array) {
+        blob = new Blob([resource]);
+    } else if (typeof Blob !== "undefined" && resource instanceof Blob) {
+        blob = resource;
+        filename = filename || (resource as File).name;
+    } else {
+        const parts: Uint8Array[] = [];
+        let size = 0;
+        const encoder = new TextEncoder();
+        for await (const chunk of resource as AsyncIterable<Uint8Array | string>) {
+            const bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+            size += bytes.byteLength;
+            assertSize(size, maxBytes);
+            parts.push(bytes);
+        }
+        filename = filename || basename(String((resource as { path?: unknown }).path || ""));
+        blob = new Blob(parts);
+    }
+
+    assertSize(blob.size, maxBytes);
+    if (blob.size === 0) throw new ValidationError("Cannot upload an empty file");
+
+    filename = filename || "upload";
+    const type = mime_type || (blob.type && blob.type !== DEFAULT_MIME_TYPE ? blob.type : mimeTypeFromFilename(filename));
+    return { blob: blob.type === type ? blob : new Blob([blob], { type }), filename };
+}
+
+// a variable specifier keeps browser and edge bundlers from resolving the Node module
+const FS_MODULE = "fs/promises";
+
+/** Imports `fs/promises`, failing with a clear error on runtimes without a file system. */
+export async function loadFs(): Promise<typeof import("fs/promises")> {
+    try {
+        return await import(FS_MODULE);
+    } catch (e) {
+        throw new ValidationError("Local files can only be read on Node; pass a Blob, File or Uint8Array instead", { cause: e });
+    }
+}
+
+function assertSize(size: number, maxBytes: number) {
+    if (size > maxBytes) {
+        throw new ValidationError(`File is ${size} bytes, larger than the ${maxBytes} bytes upload limit`);
+    }
+}
@@ -0,0 +1,99 @@
+import { BudgetExceededError } from "./errors.js";
+import { ILogger, IUsageBudget, IUsageRecord, IUsageSnapshot, IUsageTotals } from "./types/index.js";
+import { csvCell } from "./utils.js";
+
+const DEFAULT_MODEL = "default";
+
+/**
+ * Aggregates the tokens reported by the API per method, collection, model and tag,
+ * and enforces the client's {@link IUsageBudget}.
+ *
+ * Every `Wetrocloud` instance owns one, exposed as `sdk.usage`.
+ *
+ * @example
+ * const sdk = new Wetrocloud({ budget: { soft: 80_000, hard: 100_000 } });
+ * await sdk.queryResource({ collection_id: "docs", request_query: "hi", stream: false, tags: ["onboarding"] });
+ * console.log(sdk.usage.snapshot().byTag.onboarding);
+ */
+export class UsageMeter {
+    private usage = emptySnapshot();
+    private softLimitReported = false;
+
+    constructor(private budget: IUsageBudget = {}, private logger: Pick<ILogger, "warn"> = console) { }
+
+    /** Adds a call to the totals. */
+    public record({ method, collection_id, model, tags = [], tokens }: IUsageRecord) {
+        tokens = tokens || 0;
+        add(this.usage, tokens);
+        add(bucket(this.usage.byMethod, method), tokens);
+        if (collection_id) add(bucket(this.usage.byCollection, collection_id), tokens);
+        add(bucket(this.usage.byModel, model || DEFAULT_MODEL), tokens);
+        for (const tag of new Set(tags)) add(bucket(this.usage.byTag, tag), tokens);
+
+        const { soft } = this.budget;
+        if (soft !== undefined && this.usage.tokens >= soft && !this.softLimitReported) {
+            this.softLimitReported = true;
+            const snapshot = this.snapshot();
+            if (this.budget.onSoftLimit) this.budget.onSoftLimit(snapshot);
+            else this.logger.warn(`Wetrocloud: soft token budget of ${soft} reached (${snapshot.tokens} tokens used)`);
+        }
+    }
+
+    /** Throws a {@link BudgetExceededError} once the hard budget is used up. */
+    public assertWithinBudget() {
+        const { hard } = this.budget;
+        if (hard !== undefined && this.usage.tokens >= hard) {
+            throw new BudgetExceededError(`Token budget of ${hard} exhausted (${this.usage.tokens} tokens used)`, {
+                code: "BUDGET_EXCEEDED",
+                limit: hard,
+                used: this.usage.tokens
+            });
+        }
+    }
+
+    /** Replaces the budget; the soft-limit warning fires again if the new limit is reached. */
+    public setBudget(budget: IUsageBudget) {
+        this.budget = budget;
+        this.softLimitReported = false;
+    }
+
+    /** Returns a copy of the current totals. */
+    public snapshot(): IUsageSnapshot {
+        return JSON.parse(JSON.stringify(this.usage));
+    }
+
+    /** Starts a new period: clears the totals and re-arms the soft-limit warning. */
+    public reset(): IUsageSnapshot {
+        const previous = this.snapshot();
+        this.usage = emptySnapshot();
+        this.softLimitReported = false;
+        return previous;
+    }
+
+    public toJSON(): IUsageSnapshot {
+        return this.snapshot();
+    }
+
+    /** Exports the totals as CSV rows of `dimension,key,tokens,calls`. */
+    public toCSV(): string {
+        const rows = [["dimension", "key", "tokens", "calls"], ["total", "", this.usage.tokens, this.usage.calls]];
+        const dimensions = { method: this.usage.byMethod, collection: this.usage.byCollection, model: this.usage.byModel, tag: this.usage.byTag };
+        for (const [dimension, totals] of Object.entries(dimensions)) {
+            for (const [key, { tokens, calls }] of Object.entries(totals)) rows.push([dimension, key, tokens, calls]);
+        }
+        return rows.map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+    }
+}
+
+function emptySnapshot(): IUsageSnapshot {
+    return { since: new Date().toISOString(), tokens: 0, calls: 0, byMethod: {}, byCollection: {}, byModel: {}, byTag: {} };
+}
+
+function bucket(totals: Record<string, IUsageTotals>, key: string): IUsageTotals {
+    return totals[key] ??= { tokens: 0, calls: 0 };
+}
+
+function add(totals: IUsageTotals, tokens: number) {
+    totals.tokens += tokens;
+    totals.calls++;
+}
@@ -1,13 +1,162 @@
+import {
+  AuthenticationError,
+  NetworkError,
+  NotFoundError,
+  PermissionDeniedError,
+  RateLimitError,
+  RequestAbortedError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+  WetrocloudError
+} from "./errors.js";
 
+const TIMEOUT_CODES = ["ECONNABORTED", "ETIMEDOUT", "ERR_CANCELED_TIMEOUT"];
 
-export const errorMessage = (error: any) => {
-  // if (showLog)
-  console.log(`<<<<<<<<<<${JSON.stringify(error, null, 2)}>>>>>>>>>>`);
-  return (
-    error?.response?.data || error?.message || 'Something went wrong'
-  );
+/**
+ * Maps anything thrown while talking to the API (usually an Axios error) to the
+ * matching {@link WetrocloudError} subclass. Errors that already are
+ * `WetrocloudError`s are returned untouched; only transport failures become
+ * `NetworkError`s, local file system failures become `ValidationError`s.
+ */
+export const errorMessage = (error: any): WetrocloudError => {
+  if (error instanceof WetrocloudError) return error;
+  if (isAbortError(error)) return new RequestAbortedError("Request was aborted", { code: "ERR_CANCELED", cause: error });
+
+  const response = error?.response;
+  const status: number | undefined = response?.status;
+  const data = response?.data;
+  const requestId = getHeader(response?.headers, "x-request-id");
+  const code: string | undefined = error?.code;
+  const options = { status, data, requestId, code, cause: error };
+
+  if (!response) {
+    if (isFileSystemError(error)) return localFileError(error, error.path);
+    if (TIMEOUT_CODES.includes(code || "") || /timeout/i.test(error?.message || "")) {
+      return new TimeoutError(error?.message || "Request timed out", options);
+    }
+    // the fetch transport throws its own NetworkErrors
+    if (error?.isAxiosError) {
+      return new NetworkError(error?.message || "Network error", options);
+    }
+    return new WetrocloudError(error?.message || "Something went wrong", options);
+  }
+
+  const message = extractMessage(data) || error?.message || `Request failed with status ${status}`;
+
+  switch (true) {
+    case status === 400 || status === 422:
+      return new ValidationError(message, options);
+    case status === 401:
+      return new AuthenticationError(message, options);
+    case status === 403:
+      return new PermissionDeniedError(message, options);
+    case status === 404:
+      return new NotFoundError(message, options);
+    case status === 429:
+      return new RateLimitError(message, {
+        ...options,
+        retryAfter: parseRetryAfter(getHeader(response?.headers, "retry-after"))
+      });
+    case status !== undefined && status >= 500:
+      return new ServerError(message, options);
+    default:
+      return new WetrocloudError(message, options);
+  }
 };
 
+const FILE_ERRORS: Record<string, string> = {
+  ENOENT: "no such file or directory",
+  EACCES: "permission denied",
+  EPERM: "permission denied",
+  EISDIR: "is a directory",
+  ENOTDIR: "not a directory"
+};
+
+/** A Node `fs` failure: it names the system call and the path it failed on. */
+function isFileSystemError(error: any): error is { code?: string, syscall: string, path: string, message?: string } {
+  return typeof error?.syscall === "string" && typeof error?.path === "string";
+}
+
+/** Turns a failure reading a local file or directory into a `ValidationError` naming it. */
+export function localFileError(error: any, path: string | URL): ValidationError {
+  const reason = FILE_ERRORS[error?.code] || error?.message || "unreadable";
+  return new ValidationError(`Cannot read "${String(path)}": ${reason}`, { code: error?.code, cause: error });
+}
+
+export function isAbortError(error: any): boolean {
+  return error instanceof RequestAbortedError
+    || error?.code === "ERR_CANCELED"
+    || error?.name === "AbortError"
+    || error?.name === "CanceledError";
+}
+
+/**
+ * Combines several signals into one that aborts as soon as any of them does.
+ * `undefined` entries are ignored.
+ */
+export function anySignal(signals: (AbortSignal | undefined)[]): AbortSignal | undefined {
+  const active = signals.filter((signal): signal is AbortSignal => !!signal);
+  if (active.length <= 1) return active[0];
+
+  const controller = new AbortController();
+  const abort = (signal: AbortSignal) => () => controller.abort(signal.reason);
+  for (const signal of active) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener("abort", abort(signal), { once: true });
+  }
+  return controller.signal;
+}
+
+/** Picks a human readable message out of a server error payload. */
+function extractMessage(data: unknown): string | undefined {
+  if (!data) return undefined;
+  if (typeof data === "string") return data;
+  if (typeof data === "object") {
+    const payload = data as Record<string, unknown>;
+    for (const key of ["message", "detail", "error"]) {
+      if (typeof payload[key] === "string") return payload[key] as string;
+    }
+    return JSON.stringify(data);
+  }
+  return String(data);
+}
+
+export function getHeader(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  const value = typeof headers.get === "function" ? headers.get(name) : headers[name] ?? headers[name.toLowerCase()];
+  return value == null ? undefined : String(value);
+}
+
+/** Converts a `Retry-After` header (seconds or HTTP date) to milliseconds. */
+export function parseRetryAfter(value?: string): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+}
+
+/** Reads an environment variable without assuming a Node `process` global. */
+export function readEnv(name: string): string | undefined {
+  return typeof process !== "undefined" ? process.env?.[name] : undefined;
+}
+
+/**
+ * `true` on Node (and runtimes emulating it, like Bun), `false` in browsers and
+ * edge runtimes such as Cloudflare Workers or Vercel Edge, even with Node compatibility flags.
+ */
+export function isNodeRuntime(): boolean {
+  const global = globalThis as { process?: { versions?: { node?: string } }, navigator?: { userAgent?: string }, EdgeRuntime?: unknown };
+  return !!global.process?.versions?.node
+    && global.navigator?.userAgent !== "Cloudflare-Workers"
+    && global.EdgeRuntime === undefined;
+}
+
 export function generateRandomString(length: number): string {
   const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
   return Array.from({ length }, () => characters[Math.floor(Math.random() * characters.length)]).join('');
@@ -19,4 +168,20 @@ export const RequestMethods = {
   POST: "POST",
   DELETE: "DELETE",
   PUT: "PUT"
-}
\ No newline at end of file
+}
+
+/** Short, non-reversible FNV-1a hash of `text`, e.g. to tell API accounts apart without storing the secret. */
+export function fingerprint(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/** Quotes a CSV cell when it contains a comma, quote or line break. */
+export function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}